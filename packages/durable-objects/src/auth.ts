@@ -0,0 +1,17 @@
+/**
+ * Authenticated identities
+ *
+ * The worker verifies each caller's token and forwards the token subject to
+ * Durable Objects in this header, after discarding any value the client sent
+ * itself. Durable Objects are only reachable through the worker, so they can
+ * trust it.
+ */
+
+export const AUTHENTICATED_USER_HEADER = "X-Authenticated-User";
+
+/**
+ * Returns the verified user the worker attached to this request, if any.
+ */
+export function getAuthenticatedUser(request: Request): string | null {
+  return request.headers.get(AUTHENTICATED_USER_HEADER);
+}
@@ -0,0 +1,133 @@
+/**
+ * Batch sinks
+ *
+ * Where a Batcher delivers its batches. A sink either resolves once the
+ * whole batch has been accepted or throws, in which case the Batcher keeps
+ * the batch and retries it later.
+ *
+ * - log: console.log the batch (the default, for local experiments)
+ * - webhook: POST the batch as a JSON array; any non-2xx status is a failure
+ * - durable-object: call `receiveBatch(items)` over RPC on a named object
+ * - queue: send every item to a Queue binding
+ */
+
+import type { DurableObject } from "cloudflare:workers";
+
+export interface BatchItem {
+  // Increases with every queued item, so sinks can order and dedupe
+  id: number;
+  body: string;
+  // Unix time in milliseconds
+  receivedAt: number;
+  // The producer's Content-Type and X-Producer-Id headers
+  contentType: string | null;
+  producerId: string | null;
+}
+
+export type SinkConfig =
+  | { type: "log" }
+  | { type: "webhook"; url: string; headers?: Record<string, string> }
+  | { type: "durable-object"; binding: string; name: string }
+  | { type: "queue"; binding: string };
+
+/**
+ * Implemented by Durable Objects that a Batcher can deliver to.
+ */
+export interface BatchReceiver {
+  receiveBatch(items: BatchItem[]): Promise<void>;
+}
+
+type ReceiverNamespace = DurableObjectNamespace<DurableObject & BatchReceiver>;
+
+const WEBHOOK_TIMEOUT_MS = 30_000;
+// Queue.sendBatch accepts at most 100 messages per call
+const QUEUE_BATCH_SIZE = 100;
+
+/**
+ * Delivers `items` to `sink`, looking up bindings by name in `env`.
+ * Throws if delivery failed.
+ */
+export async function deliverBatch(
+  sink: SinkConfig,
+  items: BatchItem[],
+  env: object
+): Promise<void> {
+  switch (sink.type) {
+    case "log":
+      console.log(
+        `Processing batch of ${items.length} items:`,
+        items.map((item) => item.body)
+      );
+      return;
+
+    case "webhook": {
+      const response = await fetch(sink.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...sink.headers },
+        body: JSON.stringify(items),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Webhook responded with ${response.status} ${response.statusText}`
+        );
+      }
+      return;
+    }
+
+    case "durable-object": {
+      const namespace = getBinding(env, sink.binding, isNamespace);
+      const stub = namespace.get(namespace.idFromName(sink.name));
+      await stub.receiveBatch(items);
+      return;
+    }
+
+    case "queue": {
+      const queue = getBinding(env, sink.binding, isQueue);
+      for (let i = 0; i < items.length; i += QUEUE_BATCH_SIZE) {
+        await queue.sendBatch(
+          items.slice(i, i + QUEUE_BATCH_SIZE).map((item) => ({ body: item }))
+        );
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Looks up a binding by name, throwing unless it is configured and of the
+ * kind the sink needs.
+ */
+function getBinding<T>(
+  env: object,
+  name: string,
+  isKind: (binding: unknown) => binding is T
+): T {
+  if (!(name in env)) {
+    throw new Error(`Sink binding ${name} is not configured`);
+  }
+  const binding: unknown = Reflect.get(env, name);
+  if (!isKind(binding)) {
+    throw new Error(`Sink binding ${name} has the wrong type`);
+  }
+  return binding;
+}
+
+/**
+ * Durable Object namespaces can't be told apart by the class they serve,
+ * so receivers are trusted to implement `receiveBatch`.
+ */
+function isNamespace(binding: unknown): binding is ReceiverNamespace {
+  return (
+    typeof binding === "object" &&
+    binding !== null &&
+    "idFromName" in binding &&
+    "get" in binding
+  );
+}
+
+function isQueue(binding: unknown): binding is Queue {
+  return (
+    typeof binding === "object" && binding !== null && "sendBatch" in binding
+  );
+}
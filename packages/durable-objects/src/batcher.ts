@@ -4,29 +4,336 @@
  * Demonstrates alarm functionality:
  * - Uses alarms to batch requests over a time window
  * - Persistent storage of batched items
- * - Automatic processing after delay
+ * - Immediate flushes once a batch reaches its item count or byte limit
+ * - Delivery to a pluggable sink (see batch-sinks.ts) after the window
+ * - Retries with exponential backoff by rescheduling the alarm
+ * - A dead-letter table for batches that still fail after the last attempt
+ * - RPC methods (`enqueue`, `flush`, `getStatus`, `getDeadLetters`,
+ *   `replayDeadLetters`), with the HTTP routes as thin adapters
+ *
+ * Items live in a SQLite table with monotonic ids and are delivered in the
+ * order they were received, together with their metadata (received time,
+ * content type and producer id). A producer can send an `Idempotency-Key`
+ * header so a retried request isn't queued twice.
+ *
+ * Items are only deleted once their batch has been delivered or moved to
+ * the dead-letter table, so a failing sink never loses data. Delivery is
+ * at least once: a sink that fails part-way through may see items again.
+ *
+ * Sinks and retry settings are configured per batcher name with the
+ * `BATCHERS` variable:
+ *
+ *   [vars.BATCHERS.analytics]
+ *   windowSeconds = 30
+ *   maxItems = 500
+ *   maxAttempts = 8
+ *   [vars.BATCHERS.analytics.sink]
+ *   type = "webhook"
+ *   url = "https://example.com/ingest"
  */
 
 import { DurableObject } from "cloudflare:workers";
+import { deliverBatch, type BatchItem, type SinkConfig } from "./batch-sinks";
+import { migrate, type Migration } from "./migrations";
+
+export interface BatcherConfig {
+  sink?: SinkConfig;
+  // How long a batch collects items (or, when debouncing, how long the
+  // batcher waits for silence) before it is flushed
+  windowSeconds?: number;
+  // Longest a debounced batch can be postponed after its first item
+  maxWaitSeconds?: number;
+  // Flush as soon as this many items or bytes are pending
+  maxItems?: number;
+  maxBytes?: number;
+  // Delivery attempts before a batch is dead-lettered
+  maxAttempts?: number;
+  // Backoff before the first retry, doubled after every failure
+  retryBaseSeconds?: number;
+  retryMaxSeconds?: number;
+}
+
+interface Env {
+  BATCHERS?: Record<string, BatcherConfig>;
+}
+
+type ResolvedConfig = Required<Omit<BatcherConfig, "maxItems" | "maxBytes">> &
+  Pick<BatcherConfig, "maxItems" | "maxBytes">;
+
+const DEFAULT_CONFIG: ResolvedConfig = {
+  sink: { type: "log" },
+  windowSeconds: 10,
+  maxWaitSeconds: 60,
+  maxAttempts: 5,
+  retryBaseSeconds: 10,
+  retryMaxSeconds: 600,
+};
+
+// How long an idempotency key is remembered after its item was queued
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Items per delivery when the batcher has no maxItems
+const MAX_PAGE_ITEMS = 1000;
+
+type BatchItemRow = {
+  id: number;
+  body: string;
+  received_at: number;
+  content_type: string | null;
+  producer_id: string | null;
+};
+
+type DeadLetterRow = {
+  id: number;
+  items: string;
+  attempts: number;
+  error: string;
+  failed_at: number;
+};
+
+/**
+ * A batch whose delivery attempts were exhausted.
+ */
+export interface DeadLetter {
+  id: number;
+  items: BatchItem[];
+  attempts: number;
+  error: string;
+  failedAt: number;
+}
+
+/**
+ * How an item was produced. `debounce` restarts the window instead of
+ * joining the current one.
+ */
+export interface EnqueueOptions {
+  debounce?: boolean;
+  // Retries with the same key within 24 hours are only queued once
+  idempotencyKey?: string;
+  contentType?: string;
+  producerId?: string;
+}
+
+/**
+ * Response to queueing an item.
+ */
+export interface EnqueueResult {
+  // Id of the queued item, or of the earlier item with the same
+  // idempotency key
+  id: number;
+  queued: number;
+  debounce: boolean;
+  duplicate?: boolean;
+  flushed?: FlushResult["status"];
+}
+
+/**
+ * What a flush did with the pending items.
+ */
+export interface FlushResult {
+  status: "empty" | "busy" | "delivered" | "retrying" | "dead-lettered";
+  items: number;
+}
+
+/**
+ * Pending work, as reported by `GET /batcher/status`.
+ */
+export interface BatcherStatus {
+  pending: number;
+  bytes: number;
+  // When the current batch's first item was queued (or replayed)
+  windowStartedAt: number | null;
+  nextAlarm: number | null;
+  // Failed delivery attempts for the current batch
+  attempts: number;
+  deadLetters: number;
+}
 
-const SECONDS = 10;
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create dead-letter and delivery state tables",
+    up(storage) {
+      storage.sql.exec(`
+        CREATE TABLE IF NOT EXISTS dead_letters (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          items TEXT NOT NULL,
+          attempts INTEGER NOT NULL,
+          error TEXT NOT NULL,
+          failed_at INTEGER NOT NULL
+        )
+      `);
+      // Bookkeeping lives in SQL so it never shows up among the items
+      storage.sql.exec(`
+        CREATE TABLE IF NOT EXISTS batcher_state (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "Move items from key-value storage into an ordered table",
+    async up(storage) {
+      storage.sql.exec(`
+        CREATE TABLE IF NOT EXISTS batch_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          body TEXT NOT NULL,
+          bytes INTEGER NOT NULL,
+          received_at INTEGER NOT NULL,
+          content_type TEXT,
+          producer_id TEXT
+        )
+      `);
+      storage.sql.exec(`
+        CREATE TABLE IF NOT EXISTS idempotency_keys (
+          key TEXT PRIMARY KEY,
+          item_id INTEGER NOT NULL,
+          created_at INTEGER NOT NULL
+        )
+      `);
 
-export class Batcher extends DurableObject<Record<string, never>> {
-  private count: number = 0;
+      // Items used to be stored under their count as a string key, which
+      // lists "10" before "9"
+      const legacy = await storage.list<string>();
+      const ordered = Array.from(legacy).sort(
+        ([a], [b]) => parseInt(a) - parseInt(b)
+      );
+      const now = Date.now();
+      for (const [, body] of ordered) {
+        storage.sql.exec(
+          "INSERT INTO batch_items (body, bytes, received_at) VALUES (?, ?, ?)",
+          body,
+          byteLength(body),
+          now
+        );
+      }
+      // deleteAll() would also drop the SQL tables, so delete by key;
+      // Storage.delete accepts at most 128 keys per call
+      const keys = ordered.map(([key]) => key);
+      for (let i = 0; i < keys.length; i += 128) {
+        await storage.delete(keys.slice(i, i + 128));
+      }
 
-  constructor(ctx: DurableObjectState, env: Record<string, never>) {
+      // Pending totals are now derived from the table
+      storage.sql.exec(
+        "DELETE FROM batcher_state WHERE key IN ('pending_items', 'pending_bytes', 'window_started_at')"
+      );
+
+      // Dead letters from before this migration only have an id and a body
+      const rows = storage.sql
+        .exec<{
+          id: number;
+          items: string;
+          failed_at: number;
+        }>("SELECT id, items, failed_at FROM dead_letters")
+        .toArray();
+      for (const row of rows) {
+        const items = (
+          JSON.parse(row.items) as { id: string | number; body: string }[]
+        ).map((item) => ({
+          id: Number(item.id),
+          body: item.body,
+          receivedAt: row.failed_at,
+          contentType: null,
+          producerId: null,
+        }));
+        storage.sql.exec(
+          "UPDATE dead_letters SET items = ? WHERE id = ?",
+          JSON.stringify(items),
+          row.id
+        );
+      }
+    },
+  },
+  {
+    version: 3,
+    description:
+      "Track when each item was queued, apart from when it was received",
+    up(storage) {
+      // Replayed dead letters keep their received time, so the window
+      // starts from the time items were (re)queued instead
+      storage.sql.exec(
+        "ALTER TABLE batch_items ADD COLUMN queued_at INTEGER NOT NULL DEFAULT 0"
+      );
+      storage.sql.exec("UPDATE batch_items SET queued_at = received_at");
+    },
+  },
+];
+
+export class Batcher extends DurableObject<Env> {
+  private sql: SqlStorage;
+  // Set while a batch is being delivered, so flushes never overlap
+  private flushing: boolean = false;
+
+  constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
+    this.sql = ctx.storage.sql;
 
-    // Initialize count from storage on startup
     this.ctx.blockConcurrencyWhile(async () => {
-      const vals = await this.ctx.storage.list({ reverse: true, limit: 1 });
-      this.count =
-        vals.size === 0 ? 0 : parseInt(vals.keys().next().value as string);
+      await migrate(this.ctx.storage, MIGRATIONS, "Batcher");
     });
   }
 
   async fetch(request: Request): Promise<Response> {
-    this.count++;
+    const url = new URL(request.url);
+
+    // Remember which batcher this is, so the alarm can find its config
+    this.setState("name", url.searchParams.get("name") || "default");
+
+    if (url.pathname === "/batcher/status" && request.method === "GET") {
+      return new Response(JSON.stringify(await this.getStatus()), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Deliver whatever is pending without waiting for the window
+    if (url.pathname === "/batcher/flush" && request.method === "POST") {
+      try {
+        const result = await this.flush();
+        return new Response(JSON.stringify(result), {
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return this.configError(error);
+      }
+    }
+
+    // List dead-lettered batches
+    if (url.pathname === "/batcher/dead-letter" && request.method === "GET") {
+      return new Response(
+        JSON.stringify({ deadLetters: await this.getDeadLetters() }),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Put dead-lettered batches back in the queue
+    if (
+      url.pathname === "/batcher/dead-letter/replay" &&
+      request.method === "POST"
+    ) {
+      const idParam = url.searchParams.get("id");
+      const id = idParam === null ? undefined : Number(idParam);
+      if (id !== undefined && !Number.isInteger(id)) {
+        return new Response(
+          JSON.stringify({ error: "id must be an integer" }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
+      const replayed = await this.replayDeadLetters(id);
+      if (id !== undefined && replayed.batches === 0) {
+        return new Response(
+          JSON.stringify({ error: `Unknown dead letter: ${id}` }),
+          { status: 404, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(JSON.stringify({ success: true, ...replayed }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
     // Parse the request body
     const body = await request.text();
@@ -39,44 +346,426 @@ export class Batcher extends DurableObject<Record<string, never>> {
       // If body is not JSON, treat it as plain text with debounce=false
     }
 
+    try {
+      const result = await this.enqueue(
+        url.searchParams.get("name") || "default",
+        body,
+        {
+          debounce,
+          idempotencyKey: request.headers.get("Idempotency-Key") ?? undefined,
+          contentType: request.headers.get("Content-Type") ?? undefined,
+          producerId: request.headers.get("X-Producer-Id") ?? undefined,
+        }
+      );
+      return new Response(JSON.stringify(result), {
+        headers: {
+          "content-type": "application/json;charset=UTF-8",
+        },
+      });
+    } catch (error) {
+      return this.configError(error);
+    }
+  }
+
+  /**
+   * Adds an item to the batch. `name` is the batcher name the object was
+   * addressed by, which selects its BATCHERS config. Throws if that config
+   * is invalid.
+   */
+  async enqueue(
+    name: string,
+    body: string,
+    options: EnqueueOptions = {}
+  ): Promise<EnqueueResult> {
+    this.setState("name", name);
+    const config = this.getConfig();
+    const debounce = options.debounce === true;
+
+    // A retried request gets the id of the item it already queued
+    const duplicate = options.idempotencyKey
+      ? this.findQueued(options.idempotencyKey)
+      : null;
+    if (duplicate !== null) {
+      return {
+        id: duplicate,
+        queued: this.getPending().pending,
+        debounce,
+        duplicate: true,
+      };
+    }
+
+    // Add the request to the batch.
+    const now = Date.now();
+    const { id } = this.sql
+      .exec<{ id: number }>(
+        "INSERT INTO batch_items (body, bytes, received_at, queued_at, content_type, producer_id) VALUES (?, ?, ?, ?, ?, ?) RETURNING id",
+        body,
+        byteLength(body),
+        now,
+        now,
+        options.contentType ?? null,
+        options.producerId ?? null
+      )
+      .one();
+    if (options.idempotencyKey) {
+      this.sql.exec(
+        "INSERT OR REPLACE INTO idempotency_keys (key, item_id, created_at) VALUES (?, ?, ?)",
+        options.idempotencyKey,
+        id,
+        now
+      );
+    }
+    const { pending, bytes, windowStartedAt } = this.getPending();
+
+    // A full batch goes out right away, unless its sink is failing and a
+    // retry is already scheduled
+    const full =
+      (config.maxItems !== undefined && pending >= config.maxItems) ||
+      (config.maxBytes !== undefined && bytes >= config.maxBytes);
+    if (full && this.getNumber("attempts") === 0) {
+      const { status } = await this.flush();
+      return { id, queued: pending, debounce, flushed: status };
+    }
+
     // Handle alarm based on debounce setting
-    if (debounce) {
-      // Reset the alarm to 10 seconds from now on every request (debouncing)
-      this.ctx.storage.setAlarm(Date.now() + 1000 * SECONDS);
+    const windowEnd = now + 1000 * config.windowSeconds;
+    if (debounce && this.getNumber("attempts") === 0) {
+      // Push the alarm back on every request (debouncing), but never past
+      // the max wait, so a steady stream still gets flushed
+      await this.ctx.storage.setAlarm(
+        Math.min(
+          windowEnd,
+          (windowStartedAt ?? now) + 1000 * config.maxWaitSeconds
+        )
+      );
     } else {
       // Only set alarm if there isn't one already (batching)
       const currentAlarm = await this.ctx.storage.getAlarm();
       if (currentAlarm == null) {
-        this.ctx.storage.setAlarm(Date.now() + 1000 * SECONDS);
+        await this.ctx.storage.setAlarm(windowEnd);
       }
     }
 
-    // Add the request to the batch.
-    await this.ctx.storage.put(this.count.toString(), body);
-
-    return new Response(JSON.stringify({ queued: this.count, debounce }), {
-      headers: {
-        "content-type": "application/json;charset=UTF-8",
-      },
-    });
+    return { id, queued: pending, debounce };
   }
 
   async alarm(): Promise<void> {
-    const vals = await this.ctx.storage.list<string>();
+    await this.flush();
+  }
 
-    // In a real application, you would send this to an actual service
-    // For demo purposes, we'll log the batch items
-    const batchItems = Array.from(vals.values());
+  /**
+   * Delivers everything queued so far, in pages of at most `maxItems`
+   * items and `maxBytes` bytes. On failure the items stay in storage and
+   * the alarm is rescheduled with exponential backoff; after the last
+   * attempt the page moves to the dead-letter table.
+   */
+  async flush(): Promise<FlushResult> {
+    if (this.flushing) {
+      return { status: "busy", items: 0 };
+    }
 
-    console.log(`Processing batch of ${batchItems.length} items:`, batchItems);
+    this.flushing = true;
+    try {
+      return await this.deliverPending(this.getConfig());
+    } finally {
+      this.flushing = false;
+    }
+  }
 
-    // Uncomment below to send to an actual service:
-    // await fetch("http://example.com/some-upstream-service", {
-    //   method: "POST",
-    //   body: JSON.stringify(batchItems),
-    // });
+  private async deliverPending(config: ResolvedConfig): Promise<FlushResult> {
+    this.sql.exec(
+      "DELETE FROM idempotency_keys WHERE created_at < ?",
+      Date.now() - IDEMPOTENCY_TTL_MS
+    );
 
-    await this.ctx.storage.deleteAll();
-    this.count = 0;
+    // Items queued while pages are being delivered wait for a window of
+    // their own
+    const { lastId } = this.sql
+      .exec<{ lastId: number | null }>(
+        "SELECT MAX(id) AS lastId FROM batch_items"
+      )
+      .one();
+    if (lastId === null) {
+      this.setState("attempts", "0");
+      return { status: "empty", items: 0 };
+    }
+
+    let status: FlushResult["status"] = "delivered";
+    let items = 0;
+    let after = 0;
+    while (status === "delivered") {
+      const page = this.nextPage(after, lastId, config);
+      if (page.length === 0) {
+        break;
+      }
+
+      status = await this.deliverPage(page, config);
+      items += page.length;
+      if (status === "retrying") {
+        return { status, items };
+      }
+      after = page[page.length - 1].id;
+    }
+
+    // A dead-lettered page leaves the rest for the next window
+    if (this.getPending().pending === 0) {
+      await this.ctx.storage.deleteAlarm();
+    } else {
+      await this.ctx.storage.setAlarm(Date.now() + 1000 * config.windowSeconds);
+    }
+
+    return { status, items };
+  }
+
+  /**
+   * The next items after id `after`, up to `lastId`, capped by the
+   * batcher's item and byte limits. A single item over `maxBytes` still
+   * makes a page of its own.
+   */
+  private nextPage(
+    after: number,
+    lastId: number,
+    config: ResolvedConfig
+  ): BatchItem[] {
+    const rows = this.sql
+      .exec<BatchItemRow & { total_bytes: number }>(
+        "SELECT id, body, received_at, content_type, producer_id, SUM(bytes) OVER (ORDER BY id) AS total_bytes FROM batch_items WHERE id > ? AND id <= ? ORDER BY id LIMIT ?",
+        after,
+        lastId,
+        config.maxItems ?? MAX_PAGE_ITEMS
+      )
+      .toArray();
+
+    return rows
+      .filter(
+        (row, index) =>
+          index === 0 ||
+          config.maxBytes === undefined ||
+          row.total_bytes <= config.maxBytes
+      )
+      .map((row) => ({
+        id: row.id,
+        body: row.body,
+        receivedAt: row.received_at,
+        contentType: row.content_type,
+        producerId: row.producer_id,
+      }));
+  }
+
+  /**
+   * Sends one page to the sink. On failure the items stay in storage and
+   * the alarm is rescheduled with backoff, or the page is dead-lettered
+   * after the last attempt.
+   */
+  private async deliverPage(
+    page: BatchItem[],
+    config: ResolvedConfig
+  ): Promise<FlushResult["status"]> {
+    let status: FlushResult["status"] = "delivered";
+    try {
+      await deliverBatch(config.sink, page, this.env);
+    } catch (error) {
+      const attempts = this.getNumber("attempts") + 1;
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (attempts < config.maxAttempts) {
+        const delaySeconds = Math.min(
+          config.retryMaxSeconds,
+          config.retryBaseSeconds * 2 ** (attempts - 1)
+        );
+        console.warn(
+          `Batch delivery attempt ${attempts} failed, retrying in ${delaySeconds}s: ${message}`
+        );
+        this.setState("attempts", String(attempts));
+        await this.ctx.storage.setAlarm(Date.now() + delaySeconds * 1000);
+        return "retrying";
+      }
+
+      console.error(
+        `Batch delivery failed after ${attempts} attempts, dead-lettering ${page.length} items: ${message}`
+      );
+      this.sql.exec(
+        "INSERT INTO dead_letters (items, attempts, error, failed_at) VALUES (?, ?, ?, ?)",
+        JSON.stringify(page),
+        attempts,
+        message,
+        Date.now()
+      );
+      status = "dead-lettered";
+    }
+
+    // Delivered or dead-lettered: only now is it safe to drop the items
+    this.sql.exec(
+      "DELETE FROM batch_items WHERE id <= ?",
+      page[page.length - 1].id
+    );
+    this.setState("attempts", "0");
+    return status;
   }
+
+  async getStatus(): Promise<BatcherStatus> {
+    const { deadLetters } = this.sql
+      .exec<{
+        deadLetters: number;
+      }>("SELECT COUNT(*) AS deadLetters FROM dead_letters")
+      .one();
+
+    return {
+      ...this.getPending(),
+      nextAlarm: await this.ctx.storage.getAlarm(),
+      attempts: this.getNumber("attempts"),
+      deadLetters,
+    };
+  }
+
+  private getPending(): Pick<
+    BatcherStatus,
+    "pending" | "bytes" | "windowStartedAt"
+  > {
+    return this.sql
+      .exec<{
+        pending: number;
+        bytes: number;
+        windowStartedAt: number | null;
+      }>(
+        "SELECT COUNT(*) AS pending, COALESCE(SUM(bytes), 0) AS bytes, MIN(queued_at) AS windowStartedAt FROM batch_items"
+      )
+      .one();
+  }
+
+  /**
+   * The id of the item queued with `idempotencyKey`, if it was queued
+   * recently enough to be remembered.
+   */
+  private findQueued(idempotencyKey: string): number | null {
+    const rows = this.sql
+      .exec<{ item_id: number }>(
+        "SELECT item_id FROM idempotency_keys WHERE key = ? AND created_at >= ?",
+        idempotencyKey,
+        Date.now() - IDEMPOTENCY_TTL_MS
+      )
+      .toArray();
+    return rows.length === 0 ? null : rows[0].item_id;
+  }
+
+  private configError(error: unknown): Response {
+    return new Response(
+      JSON.stringify({
+        error: "Invalid batcher configuration",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  private getConfig(): ResolvedConfig {
+    const name = this.getState("name") ?? "default";
+    return resolveConfig(name, this.env.BATCHERS?.[name] ?? {});
+  }
+
+  async getDeadLetters(): Promise<DeadLetter[]> {
+    return this.sql
+      .exec<DeadLetterRow>("SELECT * FROM dead_letters ORDER BY id")
+      .toArray()
+      .map((row) => ({
+        id: row.id,
+        items: JSON.parse(row.items) as BatchItem[],
+        attempts: row.attempts,
+        error: row.error,
+        failedAt: row.failed_at,
+      }));
+  }
+
+  /**
+   * Queues the items of one dead letter (or all of them) again and
+   * schedules an immediate delivery attempt.
+   */
+  async replayDeadLetters(
+    id?: number
+  ): Promise<{ batches: number; items: number }> {
+    const deadLetters = (await this.getDeadLetters()).filter(
+      (deadLetter) => id === undefined || deadLetter.id === id
+    );
+
+    const now = Date.now();
+    let items = 0;
+    for (const deadLetter of deadLetters) {
+      // Replayed items keep their metadata but get new ids, so they are
+      // delivered after anything already pending, and count as queued now
+      for (const item of deadLetter.items) {
+        this.sql.exec(
+          "INSERT INTO batch_items (body, bytes, received_at, queued_at, content_type, producer_id) VALUES (?, ?, ?, ?, ?, ?)",
+          item.body,
+          byteLength(item.body),
+          item.receivedAt,
+          now,
+          item.contentType,
+          item.producerId
+        );
+        items++;
+      }
+      this.sql.exec("DELETE FROM dead_letters WHERE id = ?", deadLetter.id);
+    }
+
+    if (items > 0) {
+      await this.ctx.storage.setAlarm(Date.now());
+    }
+    return { batches: deadLetters.length, items };
+  }
+
+  private getState(key: string): string | null {
+    const rows = this.sql
+      .exec<{ value: string }>(
+        "SELECT value FROM batcher_state WHERE key = ?",
+        key
+      )
+      .toArray();
+    return rows.length === 0 ? null : rows[0].value;
+  }
+
+  private getNumber(key: string): number {
+    return Number(this.getState(key) ?? "0");
+  }
+
+  private setState(key: string, value: string): void {
+    this.sql.exec(
+      "INSERT INTO batcher_state (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+      key,
+      value
+    );
+  }
+}
+
+/**
+ * Fills in defaults for a BATCHERS entry and rejects settings that would
+ * make the batcher flush constantly or never.
+ */
+function resolveConfig(name: string, config: BatcherConfig): ResolvedConfig {
+  const resolved = { ...DEFAULT_CONFIG, ...config };
+  const positive = [
+    "windowSeconds",
+    "maxWaitSeconds",
+    "maxAttempts",
+    "retryBaseSeconds",
+    "retryMaxSeconds",
+    "maxItems",
+    "maxBytes",
+  ] as const;
+
+  for (const key of positive) {
+    const value = resolved[key];
+    if (value !== undefined && !(value > 0)) {
+      throw new Error(`BATCHERS.${name}.${key} must be greater than 0`);
+    }
+  }
+  if (resolved.maxWaitSeconds < resolved.windowSeconds) {
+    throw new Error(
+      `BATCHERS.${name}.maxWaitSeconds must be at least windowSeconds`
+    );
+  }
+  return resolved;
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).byteLength;
 }
@@ -0,0 +1,320 @@
+/**
+ * ChatRoom WebSocket protocol
+ *
+ * The message types exchanged between chat clients and the ChatRoom
+ * Durable Object. Clients can import these types from "durable-objects"
+ * so both sides agree on the wire format at compile time, and the server
+ * validates every incoming frame with `parseClientMessage` at runtime.
+ *
+ * Every client message may carry:
+ * - `v`: the protocol version it was written for (defaults to the current one)
+ * - `id`: a client-chosen id, echoed back in an `ack` or `error` reply so the
+ *   client can match responses to requests and safely retry
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+export interface ChatMessage {
+  id: string;
+  text: string;
+  timestamp: number;
+  username: string;
+  editedAt?: number;
+  deletedAt?: number;
+  // The author, or the moderator who removed the message
+  deletedBy?: string;
+  // Emoji -> usernames who reacted with it
+  reactions?: Record<string, string[]>;
+}
+
+/**
+ * A user who is currently online. One member may have several open
+ * connections (e.g. multiple tabs).
+ */
+export interface ChatMember {
+  username: string;
+  joinedAt: number;
+  connections: number;
+}
+
+interface ClientEnvelope {
+  v?: number;
+  id?: string;
+}
+
+export type ClientMessage = ClientEnvelope &
+  (
+    | { type: "message"; text: string }
+    | { type: "join"; username: string }
+    | { type: "members" }
+    | { type: "typing"; isTyping?: boolean }
+    | { type: "edit"; messageId: string; text: string }
+    | { type: "delete"; messageId: string }
+    | { type: "react"; messageId: string; emoji: string; remove?: boolean }
+    | { type: "resume"; lastSeenId?: string }
+    | {
+        type: "moderate";
+        action: ModerationAction;
+        username: string;
+        durationMs?: number;
+        reason?: string;
+      }
+  );
+
+export type ClientMessageType = ClientMessage["type"];
+
+export type ModerationAction = "mute" | "unmute" | "kick" | "ban" | "unban";
+
+export type ErrorCode =
+  | "invalid_json"
+  | "invalid_message"
+  | "unknown_type"
+  | "unsupported_version"
+  | "not_found"
+  | "forbidden"
+  | "conflict"
+  | "rate_limited"
+  | "too_large"
+  | "blocked"
+  | "muted"
+  | "banned"
+  | "internal_error";
+
+export type ServerMessage =
+  | {
+      type: "connected";
+      protocolVersion: number;
+      message: string;
+      room: string;
+      username: string;
+      sessionCount: number;
+      members: ChatMember[];
+    }
+  | { type: "message"; message: ChatMessage }
+  | { type: "message-edited"; message: ChatMessage }
+  | { type: "message-deleted"; message: ChatMessage }
+  | { type: "message-reacted"; message: ChatMessage }
+  | {
+      type: "user-joined" | "user-left";
+      username: string;
+      sessionCount: number;
+      members: ChatMember[];
+    }
+  | { type: "members"; members: ChatMember[] }
+  | { type: "typing"; username: string; isTyping: boolean }
+  | { type: "ack"; id: string; messageId?: string }
+  | {
+      type: "resumed";
+      id?: string;
+      count: number;
+      hasMore: boolean;
+      // True when lastSeenId was unknown (e.g. pruned by retention) and the
+      // latest page was replayed instead of an exact continuation
+      reset: boolean;
+    }
+  | {
+      type: "moderation";
+      action: ModerationAction;
+      username: string;
+      by: string;
+      until?: number | null;
+      reason?: string;
+    }
+  | {
+      type: "error";
+      id?: string;
+      code: ErrorCode;
+      message: string;
+      retryAfterMs?: number;
+    };
+
+export type ParseResult =
+  | { ok: true; message: ClientMessage }
+  | { ok: false; id?: string; code: ErrorCode; error: string };
+
+export const MODERATION_ACTIONS: ModerationAction[] = [
+  "mute",
+  "unmute",
+  "kick",
+  "ban",
+  "unban",
+];
+
+/**
+ * Parses and validates one WebSocket frame from a client.
+ */
+export function parseClientMessage(data: string | ArrayBuffer): ParseResult {
+  if (typeof data !== "string") {
+    return {
+      ok: false,
+      code: "invalid_message",
+      error: "Binary frames are not supported",
+    };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return {
+      ok: false,
+      code: "invalid_json",
+      error: "Frame is not valid JSON",
+    };
+  }
+
+  if (typeof payload !== "object" || payload === null) {
+    return {
+      ok: false,
+      code: "invalid_message",
+      error: "Frame must be a JSON object",
+    };
+  }
+
+  const record = payload as Record<string, unknown>;
+  const id = typeof record.id === "string" ? record.id : undefined;
+
+  if (record.id !== undefined && id === undefined) {
+    return { ok: false, code: "invalid_message", error: "id must be a string" };
+  }
+
+  if (record.v !== undefined && record.v !== PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      id,
+      code: "unsupported_version",
+      error: `Unsupported protocol version ${String(record.v)}, expected ${PROTOCOL_VERSION}`,
+    };
+  }
+
+  const read = new FieldReader(record);
+  const message = readMessage(read);
+  if (!message) {
+    return {
+      ok: false,
+      id,
+      code: "unknown_type",
+      error: `Unknown message type: ${String(record.type)}`,
+    };
+  }
+  if (read.error) {
+    return { ok: false, id, code: "invalid_message", error: read.error };
+  }
+
+  return {
+    ok: true,
+    message: {
+      ...message,
+      id,
+      v: record.v === undefined ? undefined : PROTOCOL_VERSION,
+    },
+  };
+}
+
+/**
+ * Builds the message for the frame's `type` from its checked fields, or
+ * returns null for an unknown type. Fields that fail their check are
+ * recorded on `read`.
+ */
+function readMessage(read: FieldReader): ClientMessage | null {
+  switch (read.type) {
+    case "message":
+      return { type: "message", text: read.string("text") };
+    case "join":
+      return { type: "join", username: read.string("username") };
+    case "members":
+      return { type: "members" };
+    case "typing":
+      return { type: "typing", isTyping: read.optionalBoolean("isTyping") };
+    case "edit":
+      return {
+        type: "edit",
+        messageId: read.string("messageId"),
+        text: read.string("text"),
+      };
+    case "delete":
+      return { type: "delete", messageId: read.string("messageId") };
+    case "react":
+      return {
+        type: "react",
+        messageId: read.string("messageId"),
+        emoji: read.string("emoji"),
+        remove: read.optionalBoolean("remove"),
+      };
+    case "resume":
+      return { type: "resume", lastSeenId: read.optionalString("lastSeenId") };
+    case "moderate":
+      return {
+        type: "moderate",
+        action: read.oneOf("action", MODERATION_ACTIONS),
+        username: read.string("username"),
+        durationMs: read.optionalNumber("durationMs"),
+        reason: read.optionalString("reason"),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads typed fields off a client frame, remembering the first one that
+ * fails its check. Required strings must also be non-empty; a failed read
+ * returns a placeholder, so check `error` before using the result.
+ */
+class FieldReader {
+  readonly type: unknown;
+  error: string | null = null;
+
+  constructor(private record: Record<string, unknown>) {
+    this.type = record.type;
+  }
+
+  string(field: string): string {
+    const value = this.record[field];
+    if (typeof value === "string" && value !== "") {
+      return value;
+    }
+    this.fail(field, "a non-empty string");
+    return "";
+  }
+
+  oneOf<T extends string>(field: string, values: readonly T[]): T {
+    const value = values.find((candidate) => candidate === this.record[field]);
+    if (value !== undefined) {
+      return value;
+    }
+    this.fail(field, `one of ${values.join(", ")}`);
+    return values[0];
+  }
+
+  optionalString(field: string): string | undefined {
+    const value = this.record[field];
+    if (value === undefined || (typeof value === "string" && value !== "")) {
+      return value;
+    }
+    this.fail(field, "a non-empty string");
+    return undefined;
+  }
+
+  optionalBoolean(field: string): boolean | undefined {
+    const value = this.record[field];
+    if (value === undefined || typeof value === "boolean") {
+      return value;
+    }
+    this.fail(field, "a boolean");
+    return undefined;
+  }
+
+  optionalNumber(field: string): number | undefined {
+    const value = this.record[field];
+    if (value === undefined || typeof value === "number") {
+      return value;
+    }
+    this.fail(field, "a number");
+    return undefined;
+  }
+
+  private fail(field: string, expected: string) {
+    this.error ??= `${String(this.type)}.${field} must be ${expected}`;
+  }
+}
@@ -2,32 +2,285 @@
  * ChatRoom Durable Object
  *
  * A chat room that demonstrates:
- * - WebSocket connections
+ * - WebSocket connections using the WebSocket Hibernation API
  * - Broadcasting messages to multiple clients
- * - Message history storage
- * - Connection state management
+ * - Message history stored in SQLite with cursor pagination
+ * - Per-connection state kept in serialized socket attachments
+ * - Presence (named member list, join/leave events) and typing indicators
+ * - Editing, deleting and reacting to messages after they are stored
+ * - A typed, validated WebSocket protocol (see chat-protocol.ts) with
+ *   acks, structured error codes and resume after reconnect
+ * - A Server-Sent Events transport for clients that can't use WebSockets
+ * - Moderation: rate limits, message size limits, word filters, and
+ *   moderator commands to mute, kick and ban users
+ * - Trusting the identity the worker verified (see auth.ts) instead of a
+ *   client-supplied username
+ * - RPC methods for everything except the streaming transports, which take
+ *   the acting username from the caller; the HTTP routes adapt them
+ *
+ * Because sockets are accepted with `ctx.acceptWebSocket`, the runtime can
+ * evict the object from memory while clients stay connected. Anything we
+ * need to know about a connection after wake-up (who it is, when it joined,
+ * which room it belongs to) lives in its attachment, not in instance fields.
+ * SSE streams are ordinary HTTP responses, so while any are open the object
+ * stays in memory and tracks them in `eventStreams`.
  */
 
 import { DurableObject } from "cloudflare:workers";
+import { getAuthenticatedUser } from "./auth";
+import {
+  MODERATION_ACTIONS,
+  PROTOCOL_VERSION,
+  parseClientMessage,
+  type ChatMember,
+  type ChatMessage,
+  type ClientMessage,
+  type ErrorCode,
+  type ModerationAction,
+  type ServerMessage,
+} from "./chat-protocol";
+import {
+  takeTokens,
+  type TokenBucketOptions,
+  type TokenBucketState,
+} from "./token-bucket";
+import { migrate, type Migration } from "./migrations";
 
-interface Message {
+type MessageRow = {
+  seq: number;
   id: string;
   text: string;
   timestamp: number;
   username: string;
+  edited_at: number | null;
+  deleted_at: number | null;
+  deleted_by: string | null;
+};
+
+type ReactionRow = {
+  message_id: string;
+  emoji: string;
+  username: string;
+};
+
+/**
+ * A rejected request. Carries the HTTP status and protocol error code so
+ * both the HTTP and WebSocket paths can report it.
+ */
+export type Failure = {
+  ok: false;
+  status: number;
+  code: ErrorCode;
+  error: string;
+  retryAfterMs?: number;
+};
+
+/**
+ * Outcome of posting, editing, deleting or reacting to a message.
+ */
+export type MessageUpdate = { ok: true; message: ChatMessage } | Failure;
+
+/**
+ * Room moderation settings. `blockedPatterns` are case-insensitive regular
+ * expression sources; a message matching any of them is rejected.
+ */
+export interface ModerationConfig {
+  moderators: string[];
+  blockedPatterns: string[];
+  maxMessageLength: number;
+}
+
+/**
+ * A mute or ban. `until` is null for sanctions that don't expire.
+ */
+export interface Sanction {
+  by: string;
+  at: number;
+  until: number | null;
+  reason?: string;
+}
+
+/**
+ * How much history a room keeps. Either limit may be null to disable it.
+ */
+export interface RetentionPolicy {
+  maxMessages: number | null;
+  maxAgeMs: number | null;
+}
+
+export interface HistoryQuery {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+export interface HistoryPage {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+/**
+ * Moderation settings together with the active bans and mutes.
+ */
+export interface ModerationState {
+  config: ModerationConfig;
+  bans: Record<string, Sanction>;
+  mutes: Record<string, Sanction>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create messages table",
+    up(storage) {
+      // seq gives us a stable insertion order to paginate on, while id
+      // stays the public identifier clients use as a cursor
+      storage.sql.exec(`
+        CREATE TABLE IF NOT EXISTS messages (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL UNIQUE,
+          text TEXT NOT NULL,
+          username TEXT NOT NULL,
+          timestamp INTEGER NOT NULL
+        )
+      `);
+      storage.sql.exec(
+        "CREATE INDEX IF NOT EXISTS messages_timestamp ON messages (timestamp)"
+      );
+    },
+  },
+  {
+    version: 2,
+    description: "Import the legacy JSON message history",
+    async up(storage) {
+      const legacy = await storage.get<ChatMessage[]>("messages");
+      if (!legacy) {
+        return;
+      }
+
+      for (const message of legacy) {
+        storage.sql.exec(
+          "INSERT OR IGNORE INTO messages (id, text, username, timestamp) VALUES (?, ?, ?, ?)",
+          message.id,
+          message.text,
+          message.username,
+          message.timestamp
+        );
+      }
+      await storage.delete("messages");
+    },
+  },
+  {
+    version: 3,
+    description: "Track edits, deletions and reactions",
+    up(storage) {
+      storage.sql.exec("ALTER TABLE messages ADD COLUMN edited_at INTEGER");
+      storage.sql.exec("ALTER TABLE messages ADD COLUMN deleted_at INTEGER");
+      storage.sql.exec("ALTER TABLE messages ADD COLUMN deleted_by TEXT");
+      storage.sql.exec(`
+        CREATE TABLE IF NOT EXISTS reactions (
+          message_id TEXT NOT NULL REFERENCES messages (id) ON DELETE CASCADE,
+          emoji TEXT NOT NULL,
+          username TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (message_id, emoji, username)
+        )
+      `);
+    },
+  },
+];
+
+const DEFAULT_RETENTION: RetentionPolicy = {
+  maxMessages: 1000,
+  maxAgeMs: null,
+};
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+// Comment lines sent on idle SSE streams so proxies don't time them out
+const SSE_HEARTBEAT_MS = 15_000;
+
+const DEFAULT_MODERATION: ModerationConfig = {
+  moderators: [],
+  blockedPatterns: [],
+  maxMessageLength: 2000,
+};
+
+const DEFAULT_MUTE_MS = 10 * 60 * 1000;
+
+// Every frame a connection sends, including typing indicators
+const CONNECTION_RATE_LIMIT: TokenBucketOptions = {
+  capacity: 10,
+  refillPerSecond: 2,
+};
+
+// Messages, edits and reactions by one username across all its
+// connections and the HTTP API
+const USER_RATE_LIMIT: TokenBucketOptions = {
+  capacity: 5,
+  refillPerSecond: 0.5,
+};
+
+interface Env {
+  // Usernames that moderate every room, whatever its `moderators` say.
+  // Rooms start without moderators, so these appoint the first ones.
+  CHAT_ADMINS?: string[];
+}
+
+/**
+ * Per-connection metadata, serialized onto the WebSocket so it survives
+ * hibernation. Attachments are limited to 2,048 bytes, so keep this small.
+ */
+interface SessionAttachment {
+  username: string;
+  joinedAt: number;
+  room: string;
+  bucket?: TokenBucketState;
 }
 
-export class ChatRoom extends DurableObject<Record<string, never>> {
-  private sessions: Set<WebSocket>;
+export class ChatRoom extends DurableObject<Env> {
+  private sql: SqlStorage;
+  // Writers for the currently open Server-Sent Events streams, with the
+  // user each one belongs to, so moderators can close them
+  private eventStreams: Map<
+    (chunk: string) => void,
+    { username: string; close: () => void }
+  > = new Map();
+  // Per-username rate limit buckets. Losing these on eviction is fine: the
+  // object is only evicted once the room has been quiet for a while.
+  private userBuckets: Map<string, TokenBucketState> = new Map();
 
-  constructor(ctx: DurableObjectState, env: Record<string, never>) {
+  constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
-    this.sessions = new Set();
+    this.sql = ctx.storage.sql;
+
+    // Bring the schema up to date before handling any request
+    this.ctx.blockConcurrencyWhile(async () => {
+      await migrate(this.ctx.storage, MIGRATIONS, "ChatRoom");
+    });
+
+    // Answer keepalive pings without waking the object up
+    this.ctx.setWebSocketAutoResponse(
+      new WebSocketRequestResponsePair("ping", "pong")
+    );
   }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
 
+    // Every route acts as the user the worker authenticated
+    const user = getAuthenticatedUser(request);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Authentication required" }),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
     // WebSocket upgrade
     if (url.pathname === "/chat/ws") {
       const upgradeHeader = request.headers.get("Upgrade");
@@ -35,10 +288,19 @@ export class ChatRoom extends DurableObject<Record<string, never>> {
         return new Response("Expected WebSocket upgrade", { status: 426 });
       }
 
+      const banned = await this.checkBan(user);
+      if (banned) {
+        return failureResponse(banned);
+      }
+
       const webSocketPair = new WebSocketPair();
       const [client, server] = Object.values(webSocketPair);
 
-      this.handleSession(server);
+      this.handleSession(server, {
+        username: user,
+        joinedAt: Date.now(),
+        room: url.searchParams.get("room") || "default",
+      });
 
       return new Response(null, {
         status: 101,
@@ -46,25 +308,161 @@ export class ChatRoom extends DurableObject<Record<string, never>> {
       });
     }
 
-    // Get message history
+    // Server-Sent Events stream of everything broadcast to the room
+    if (url.pathname === "/chat/events" && request.method === "GET") {
+      const lastEventId =
+        request.headers.get("Last-Event-ID") ??
+        url.searchParams.get("lastEventId");
+      const banned = await this.checkBan(user);
+      if (banned) {
+        return failureResponse(banned);
+      }
+      return this.openEventStream(request, user, lastEventId);
+    }
+
+    // Get message history, paginated with before/after message id cursors
     if (url.pathname === "/chat/messages" && request.method === "GET") {
-      const messages =
-        (await this.ctx.storage.get<Message[]>("messages")) ?? [];
-      return new Response(JSON.stringify({ messages }), {
+      const limitParam = url.searchParams.get("limit");
+      const result = await this.getHistory(user, {
+        before: url.searchParams.get("before") ?? undefined,
+        after: url.searchParams.get("after") ?? undefined,
+        limit: limitParam === null ? undefined : Number(limitParam),
+      });
+      if (!result.ok) {
+        return failureResponse(result);
+      }
+
+      return new Response(JSON.stringify(result.page), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // List who is currently online
+    if (url.pathname === "/chat/members" && request.method === "GET") {
+      return new Response(JSON.stringify(this.listMembers()), {
         headers: { "Content-Type": "application/json" },
       });
     }
 
+    // Get or update the history retention policy
+    if (url.pathname === "/chat/retention") {
+      if (request.method === "PUT") {
+        const body = (await request.json()) as Partial<RetentionPolicy>;
+        const result = await this.updateRetention(user, body);
+        if (!result.ok) {
+          return failureResponse(result);
+        }
+
+        return new Response(
+          JSON.stringify({ success: true, retention: result.retention }),
+          {
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const retention = await this.getRetention();
+      return new Response(JSON.stringify({ retention }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Edit, delete or react to a message (HTTP API)
+    if (
+      (url.pathname === "/chat/edit" ||
+        url.pathname === "/chat/delete" ||
+        url.pathname === "/chat/react") &&
+      request.method === "POST"
+    ) {
+      const body = (await request.json()) as {
+        messageId?: string;
+        text?: string;
+        emoji?: string;
+        remove?: boolean;
+      };
+
+      if (!body.messageId) {
+        return new Response(JSON.stringify({ error: "messageId required" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const result =
+        url.pathname === "/chat/edit"
+          ? await this.editMessage(body.messageId, user, body.text ?? "")
+          : url.pathname === "/chat/delete"
+            ? await this.deleteMessage(body.messageId, user)
+            : await this.reactToMessage(
+                body.messageId,
+                user,
+                body.emoji ?? "",
+                body.remove === true
+              );
+
+      if (!result.ok) {
+        return failureResponse(result);
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, message: result.message }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
     // Send message (HTTP API)
     if (url.pathname === "/chat/send" && request.method === "POST") {
-      const { text, username } = (await request.json()) as {
-        text: string;
-        username: string;
+      const { text } = (await request.json()) as { text?: string };
+      const result = await this.postMessage(user, text ?? "");
+      if (!result.ok) {
+        return failureResponse(result);
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, message: result.message }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Moderation settings, bans and mutes
+    if (url.pathname === "/chat/moderation" && request.method === "GET") {
+      return new Response(JSON.stringify(await this.getModeration()), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Update moderation settings
+    if (url.pathname === "/chat/moderation" && request.method === "PUT") {
+      const body = (await request.json()) as Partial<ModerationConfig>;
+      const result = await this.updateModeration(user, body);
+      if (!result.ok) {
+        return failureResponse(result);
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, config: result.config }),
+        {
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Run a moderator command (HTTP API)
+    if (url.pathname === "/chat/moderate" && request.method === "POST") {
+      const body = (await request.json()) as {
+        action?: string;
+        username?: string;
+        durationMs?: number;
+        reason?: string;
       };
 
-      if (!text || !username) {
+      if (!body.action || !body.username) {
         return new Response(
-          JSON.stringify({ error: "text and username required" }),
+          JSON.stringify({ error: "action and username required" }),
           {
             status: 400,
             headers: { "Content-Type": "application/json" },
@@ -72,17 +470,18 @@ export class ChatRoom extends DurableObject<Record<string, never>> {
         );
       }
 
-      const message: Message = {
-        id: crypto.randomUUID(),
-        text,
-        username,
-        timestamp: Date.now(),
-      };
-
-      await this.addMessage(message);
-      this.broadcast(JSON.stringify({ type: "message", message }));
+      const result = await this.moderate(
+        user,
+        body.action,
+        body.username,
+        body.durationMs,
+        body.reason
+      );
+      if (!result.ok) {
+        return failureResponse(result);
+      }
 
-      return new Response(JSON.stringify({ success: true, message }), {
+      return new Response(JSON.stringify({ success: true }), {
         headers: { "Content-Type": "application/json" },
       });
     }
@@ -95,84 +494,1269 @@ export class ChatRoom extends DurableObject<Record<string, never>> {
     );
   }
 
-  private handleSession(webSocket: WebSocket) {
-    webSocket.accept();
-    this.sessions.add(webSocket);
+  /**
+   * Called by the runtime for every message on a hibernatable socket,
+   * waking the object up first if it was evicted.
+   */
+  async webSocketMessage(
+    webSocket: WebSocket,
+    data: string | ArrayBuffer
+  ): Promise<void> {
+    const parsed = parseClientMessage(data);
+    if (!parsed.ok) {
+      this.send(webSocket, {
+        type: "error",
+        id: parsed.id,
+        code: parsed.code,
+        message: parsed.error,
+      });
+      return;
+    }
 
-    webSocket.addEventListener("message", async (event) => {
-      try {
-        const data = JSON.parse(event.data as string);
-
-        if (data.type === "message") {
-          const message: Message = {
-            id: crypto.randomUUID(),
-            text: data.text,
-            username: data.username || "Anonymous",
-            timestamp: Date.now(),
-          };
-
-          await this.addMessage(message);
-          this.broadcast(JSON.stringify({ type: "message", message }));
+    // Every socket gets its attachment when it is accepted, so one without
+    // it has no verified identity and can't be allowed to act
+    const attachment = this.getAttachment(webSocket);
+    if (!attachment) {
+      webSocket.close(1008, "Authentication required");
+      return;
+    }
+
+    // Throttle the connection itself, whatever it is sending
+    const limit = takeTokens(attachment.bucket, CONNECTION_RATE_LIMIT);
+    attachment.bucket = limit.state;
+    webSocket.serializeAttachment(attachment);
+    if (!limit.allowed) {
+      this.send(webSocket, {
+        type: "error",
+        id: parsed.message.id,
+        code: "rate_limited",
+        message: "Too many messages, slow down",
+        retryAfterMs: limit.retryAfterMs,
+      });
+      return;
+    }
+
+    try {
+      await this.handleClientMessage(webSocket, attachment, parsed.message);
+    } catch (error) {
+      console.error("Failed to handle chat message:", error);
+      this.send(webSocket, {
+        type: "error",
+        id: parsed.message.id,
+        code: "internal_error",
+        message: "Failed to handle message",
+      });
+    }
+  }
+
+  private async handleClientMessage(
+    webSocket: WebSocket,
+    attachment: SessionAttachment,
+    payload: ClientMessage
+  ) {
+    switch (payload.type) {
+      // Post, edit, delete or react as the username this connection joined with
+      case "message":
+      case "edit":
+      case "delete":
+      case "react": {
+        const result =
+          payload.type === "message"
+            ? await this.postMessage(attachment.username, payload.text)
+            : payload.type === "edit"
+              ? await this.editMessage(
+                  payload.messageId,
+                  attachment.username,
+                  payload.text
+                )
+              : payload.type === "delete"
+                ? await this.deleteMessage(
+                    payload.messageId,
+                    attachment.username
+                  )
+                : await this.reactToMessage(
+                    payload.messageId,
+                    attachment.username,
+                    payload.emoji,
+                    payload.remove === true
+                  );
+
+        if (!result.ok) {
+          this.sendFailure(webSocket, payload.id, result);
+          return;
         }
-      } catch (error) {
-        webSocket.send(
-          JSON.stringify({
+
+        this.ack(webSocket, payload.id, result.message.id);
+        return;
+      }
+
+      // The username comes from the connection's token, so joining only
+      // confirms it; it can't be changed to someone else's
+      case "join": {
+        if (payload.username !== attachment.username) {
+          this.send(webSocket, {
             type: "error",
-            message: "Invalid message format",
-          })
+            id: payload.id,
+            code: "forbidden",
+            message: `This connection is authenticated as ${attachment.username}`,
+          });
+          return;
+        }
+
+        this.ack(webSocket, payload.id);
+        this.send(webSocket, { type: "members", members: this.getMembers() });
+        return;
+      }
+
+      // Request the current member list
+      case "members":
+        this.ack(webSocket, payload.id);
+        this.send(webSocket, { type: "members", members: this.getMembers() });
+        return;
+
+      // Typing indicators are relayed to everyone else but never stored
+      case "typing":
+        this.broadcast(
+          {
+            type: "typing",
+            username: attachment.username,
+            isTyping: payload.isTyping !== false,
+          },
+          webSocket
+        );
+        this.ack(webSocket, payload.id);
+        return;
+
+      case "moderate": {
+        const result = await this.moderate(
+          attachment.username,
+          payload.action,
+          payload.username,
+          payload.durationMs,
+          payload.reason
         );
+        if (!result.ok) {
+          this.sendFailure(webSocket, payload.id, result);
+          return;
+        }
+
+        this.ack(webSocket, payload.id);
+        return;
       }
+
+      // Replay what the client missed while it was disconnected
+      case "resume": {
+        let page = await this.getMessages({
+          after: payload.lastSeenId,
+          limit: MAX_HISTORY_LIMIT,
+        });
+        const reset = page === null;
+        if (!page) {
+          page = await this.getMessages({ limit: MAX_HISTORY_LIMIT });
+        }
+
+        for (const message of page?.messages ?? []) {
+          this.send(webSocket, { type: "message", message });
+        }
+        this.send(webSocket, {
+          type: "resumed",
+          id: payload.id,
+          count: page?.messages.length ?? 0,
+          hasMore: page?.hasMore ?? false,
+          reset,
+        });
+        return;
+      }
+    }
+  }
+
+  async webSocketClose(
+    webSocket: WebSocket,
+    code: number,
+    reason: string,
+    wasClean: boolean
+  ): Promise<void> {
+    // Announce the departure first: closing can throw, and the departing
+    // socket is excluded from the member list either way
+    this.handleDeparture(webSocket);
+
+    // Complete the closing handshake; the socket is dropped from
+    // ctx.getWebSockets() once it is closed. 1005 (no status) and 1006
+    // (abnormal closure) are reserved and can't be sent back.
+    try {
+      webSocket.close(code === 1005 || code === 1006 ? 1000 : code, reason);
+    } catch {
+      // The socket is already closed
+    }
+  }
+
+  async webSocketError(webSocket: WebSocket, error: unknown): Promise<void> {
+    console.error("WebSocket error:", error);
+    this.handleDeparture(webSocket);
+    try {
+      webSocket.close(1011, "WebSocket error");
+    } catch {
+      // The socket already failed
+    }
+  }
+
+  private handleSession(webSocket: WebSocket, attachment: SessionAttachment) {
+    // Hand the socket to the runtime instead of calling accept(), so the
+    // object can hibernate while the connection stays open.
+    this.ctx.acceptWebSocket(webSocket);
+    webSocket.serializeAttachment(attachment);
+
+    // Send connection confirmation
+    this.send(webSocket, {
+      type: "connected",
+      protocolVersion: PROTOCOL_VERSION,
+      message: "Connected to chat room",
+      room: attachment.room,
+      username: attachment.username,
+      sessionCount: this.sessionCount(),
+      members: this.getMembers(),
     });
 
-    webSocket.addEventListener("close", () => {
-      this.sessions.delete(webSocket);
+    // Broadcast new connection to other clients
+    this.broadcastPresence("user-joined", attachment.username, webSocket);
+  }
+
+  /**
+   * Streams broadcast events as Server-Sent Events. If the client is
+   * reconnecting with a Last-Event-ID, the messages it missed are replayed
+   * first. Cancellation follows the same AbortController pattern as the
+   * Streamer example: whichever side goes away first aborts, and the abort
+   * handler unregisters the stream and stops its heartbeat.
+   */
+  private openEventStream(
+    request: Request,
+    username: string,
+    lastEventId: string | null
+  ): Response {
+    const encoder = new TextEncoder();
+    const abortController = new AbortController();
+    const eventStreams = this.eventStreams;
+    const getMessages = (query: HistoryQuery) => this.getMessages(query);
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        // Check if request was already cancelled
+        if (request.signal.aborted) {
+          controller.close();
+          abortController.abort();
+          return;
+        }
+
+        const write = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // The stream is already closed
+            abortController.abort();
+          }
+        };
+
+        // Tell EventSource how long to wait before reconnecting
+        write("retry: 3000\n\n");
+
+        if (lastEventId) {
+          let page = await getMessages({
+            after: lastEventId,
+            limit: MAX_HISTORY_LIMIT,
+          });
+          const reset = page === null;
+          if (!page) {
+            page = await getMessages({ limit: MAX_HISTORY_LIMIT });
+          }
+
+          for (const message of page?.messages ?? []) {
+            write(formatEvent({ type: "message", message }));
+          }
+          write(
+            formatEvent({
+              type: "resumed",
+              count: page?.messages.length ?? 0,
+              hasMore: page?.hasMore ?? false,
+              reset,
+            })
+          );
+        }
+
+        const heartbeat = setInterval(
+          () => write(": heartbeat\n\n"),
+          SSE_HEARTBEAT_MS
+        );
+
+        eventStreams.set(write, {
+          username,
+          close: () => {
+            abortController.abort();
+            try {
+              controller.close();
+            } catch {
+              // The stream is already closed
+            }
+          },
+        });
+        abortController.signal.addEventListener("abort", () => {
+          clearInterval(heartbeat);
+          eventStreams.delete(write);
+        });
+      },
+      cancel() {
+        console.log("Event stream cancelled by client");
+        abortController.abort();
+      },
     });
 
-    webSocket.addEventListener("error", () => {
-      this.sessions.delete(webSocket);
+    request.signal.addEventListener("abort", () => abortController.abort());
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "X-Content-Type-Options": "nosniff",
+      },
     });
+  }
 
-    // Send connection confirmation
-    webSocket.send(
-      JSON.stringify({
-        type: "connected",
-        message: "Connected to chat room",
-        sessionCount: this.sessions.size,
-      })
-    );
+  private handleDeparture(webSocket: WebSocket) {
+    const attachment = this.getAttachment(webSocket);
+    if (attachment) {
+      this.broadcastPresence("user-left", attachment.username, webSocket);
+    }
+  }
 
-    // Broadcast new connection to other clients
+  private broadcastPresence(
+    type: "user-joined" | "user-left",
+    username: string,
+    exclude: WebSocket
+  ) {
     this.broadcast(
-      JSON.stringify({
-        type: "user-joined",
-        sessionCount: this.sessions.size,
-      }),
-      webSocket
+      {
+        type,
+        username,
+        sessionCount: this.sessionCount(exclude),
+        members: this.getMembers(exclude),
+      },
+      exclude
     );
   }
 
-  private async addMessage(message: Message) {
-    const messages = (await this.ctx.storage.get<Message[]>("messages")) ?? [];
-    messages.push(message);
+  private async addMessage(message: ChatMessage) {
+    this.sql.exec(
+      "INSERT INTO messages (id, text, username, timestamp) VALUES (?, ?, ?, ?)",
+      message.id,
+      message.text,
+      message.username,
+      message.timestamp
+    );
+
+    this.pruneMessages(await this.getRetention());
+  }
 
-    // Keep only last 100 messages
-    if (messages.length > 100) {
-      messages.shift();
+  /**
+   * Stores a new message from `username` and broadcasts it, if moderation
+   * allows it.
+   */
+  async postMessage(username: string, text: string): Promise<MessageUpdate> {
+    if (typeof text !== "string" || !text) {
+      return {
+        ok: false,
+        status: 400,
+        code: "invalid_message",
+        error: "text required",
+      };
     }
 
-    await this.ctx.storage.put("messages", messages);
+    const rejection = await this.checkPost(username, text);
+    if (rejection) {
+      return rejection;
+    }
+
+    const message: ChatMessage = {
+      id: crypto.randomUUID(),
+      text,
+      username,
+      timestamp: Date.now(),
+    };
+
+    await this.addMessage(message);
+    this.broadcast({ type: "message", message });
+    return { ok: true, message };
   }
 
-  private broadcast(message: string, exclude?: WebSocket) {
-    this.sessions.forEach((session) => {
-      if (session !== exclude) {
-        try {
-          session.send(message);
-        } catch (error) {
-          // Remove broken connections
-          this.sessions.delete(session);
-        }
+  /**
+   * Replaces the text of a message. Only its author may edit it.
+   */
+  async editMessage(
+    messageId: string,
+    username: string,
+    text: string
+  ): Promise<MessageUpdate> {
+    if (typeof text !== "string" || !text) {
+      return {
+        ok: false,
+        status: 400,
+        code: "invalid_message",
+        error: "text required",
+      };
+    }
+
+    const existing = this.getMessage(messageId);
+    if (!existing) {
+      return {
+        ok: false,
+        status: 404,
+        code: "not_found",
+        error: "Message not found",
+      };
+    }
+    if (existing.username !== username) {
+      return {
+        ok: false,
+        status: 403,
+        code: "forbidden",
+        error: "Only the author can edit a message",
+      };
+    }
+    if (existing.deletedAt) {
+      return {
+        ok: false,
+        status: 409,
+        code: "conflict",
+        error: "Message has been deleted",
+      };
+    }
+
+    // Only a valid edit uses up rate limit quota
+    const rejection = await this.checkPost(username, text);
+    if (rejection) {
+      return rejection;
+    }
+
+    this.sql.exec(
+      "UPDATE messages SET text = ?, edited_at = ? WHERE id = ?",
+      text,
+      Date.now(),
+      messageId
+    );
+
+    return this.publishUpdate("message-edited", messageId);
+  }
+
+  /**
+   * Soft-deletes a message: the row stays so history and cursors remain
+   * stable, but its text and reactions are cleared. Authors can delete
+   * their own messages and moderators anyone's; `deletedBy` records which.
+   */
+  async deleteMessage(
+    messageId: string,
+    username: string
+  ): Promise<MessageUpdate> {
+    const existing = this.getMessage(messageId);
+    if (!existing) {
+      return {
+        ok: false,
+        status: 404,
+        code: "not_found",
+        error: "Message not found",
+      };
+    }
+    if (
+      existing.username !== username &&
+      (await this.requireModerator(username))
+    ) {
+      return {
+        ok: false,
+        status: 403,
+        code: "forbidden",
+        error: "Only the author or a moderator can delete a message",
+      };
+    }
+    if (existing.deletedAt) {
+      return {
+        ok: false,
+        status: 409,
+        code: "conflict",
+        error: "Message has been deleted",
+      };
+    }
+
+    this.sql.exec(
+      "UPDATE messages SET text = '', deleted_at = ?, deleted_by = ? WHERE id = ?",
+      Date.now(),
+      username,
+      messageId
+    );
+    this.sql.exec("DELETE FROM reactions WHERE message_id = ?", messageId);
+
+    return this.publishUpdate("message-deleted", messageId);
+  }
+
+  /**
+   * Adds (or with `remove`, takes back) a user's emoji reaction.
+   */
+  async reactToMessage(
+    messageId: string,
+    username: string,
+    emoji: string,
+    remove: boolean = false
+  ): Promise<MessageUpdate> {
+    if (typeof emoji !== "string" || !emoji) {
+      return {
+        ok: false,
+        status: 400,
+        code: "invalid_message",
+        error: "emoji required",
+      };
+    }
+
+    const rejection = await this.checkPost(username, null);
+    if (rejection) {
+      return rejection;
+    }
+
+    const existing = this.getMessage(messageId);
+    if (!existing) {
+      return {
+        ok: false,
+        status: 404,
+        code: "not_found",
+        error: "Message not found",
+      };
+    }
+    if (existing.deletedAt) {
+      return {
+        ok: false,
+        status: 409,
+        code: "conflict",
+        error: "Message has been deleted",
+      };
+    }
+
+    if (remove) {
+      this.sql.exec(
+        "DELETE FROM reactions WHERE message_id = ? AND emoji = ? AND username = ?",
+        messageId,
+        emoji,
+        username
+      );
+    } else {
+      this.sql.exec(
+        "INSERT OR IGNORE INTO reactions (message_id, emoji, username, created_at) VALUES (?, ?, ?, ?)",
+        messageId,
+        emoji,
+        username,
+        Date.now()
+      );
+    }
+
+    return this.publishUpdate("message-reacted", messageId);
+  }
+
+  /**
+   * A 403 failure if `username` is banned. Bans keep users from reading the
+   * room as well as writing to it.
+   */
+  private async checkBan(username: string): Promise<Failure | null> {
+    const ban = await this.getSanction("bans", username);
+    if (!ban) {
+      return null;
+    }
+
+    return {
+      ok: false,
+      status: 403,
+      code: "banned",
+      error: `${username} is banned from this room`,
+    };
+  }
+
+  /**
+   * Applies bans, mutes, the size limit, the word filter and the per-user
+   * rate limit to something a user wants to write. `text` is null for
+   * writes without text, such as reactions.
+   */
+  private async checkPost(
+    username: string,
+    text: string | null
+  ): Promise<Failure | null> {
+    const banned = await this.checkBan(username);
+    if (banned) {
+      return banned;
+    }
+
+    const mute = await this.getSanction("mutes", username);
+    if (mute) {
+      return {
+        ok: false,
+        status: 403,
+        code: "muted",
+        error: `${username} is muted`,
+        retryAfterMs: mute.until === null ? undefined : mute.until - Date.now(),
+      };
+    }
+
+    if (text !== null) {
+      const config = await this.getModerationConfig();
+      if (text.length > config.maxMessageLength) {
+        return {
+          ok: false,
+          status: 413,
+          code: "too_large",
+          error: `Messages are limited to ${config.maxMessageLength} characters`,
+        };
       }
+
+      const blocked = config.blockedPatterns.some((pattern) =>
+        new RegExp(pattern, "i").test(text)
+      );
+      if (blocked) {
+        return {
+          ok: false,
+          status: 422,
+          code: "blocked",
+          error: "Message contains blocked content",
+        };
+      }
+    }
+
+    const limit = takeTokens(this.userBuckets.get(username), USER_RATE_LIMIT);
+    this.userBuckets.set(username, limit.state);
+    if (!limit.allowed) {
+      return {
+        ok: false,
+        status: 429,
+        code: "rate_limited",
+        error: "Too many messages, slow down",
+        retryAfterMs: limit.retryAfterMs,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Runs a moderator command against `username` and announces it to the room.
+   */
+  async moderate(
+    moderator: string,
+    action: string,
+    username: string,
+    durationMs?: number,
+    reason?: string
+  ): Promise<{ ok: true } | Failure> {
+    if (!MODERATION_ACTIONS.includes(action as ModerationAction)) {
+      return {
+        ok: false,
+        status: 400,
+        code: "invalid_message",
+        error: `action must be one of ${MODERATION_ACTIONS.join(", ")}`,
+      };
+    }
+    if (
+      durationMs !== undefined &&
+      (!Number.isInteger(durationMs) || durationMs < 1)
+    ) {
+      return {
+        ok: false,
+        status: 400,
+        code: "invalid_message",
+        error: "durationMs must be a positive integer",
+      };
+    }
+
+    const denied = await this.requireModerator(moderator);
+    if (denied) {
+      return denied;
+    }
+
+    const now = Date.now();
+    let until: number | null | undefined;
+
+    switch (action as ModerationAction) {
+      case "mute":
+        until = now + (durationMs ?? DEFAULT_MUTE_MS);
+        await this.setSanction("mutes", username, {
+          by: moderator,
+          at: now,
+          until,
+          reason,
+        });
+        break;
+      case "unmute":
+        await this.setSanction("mutes", username, null);
+        break;
+      case "kick":
+        this.disconnectUser(username, 4000, "Kicked by a moderator");
+        break;
+      case "ban":
+        until = durationMs === undefined ? null : now + durationMs;
+        await this.setSanction("bans", username, {
+          by: moderator,
+          at: now,
+          until,
+          reason,
+        });
+        this.disconnectUser(username, 4001, "Banned by a moderator");
+        break;
+      case "unban":
+        await this.setSanction("bans", username, null);
+        break;
+    }
+
+    this.broadcast({
+      type: "moderation",
+      action: action as ModerationAction,
+      username,
+      by: moderator,
+      until,
+      reason,
     });
+    return { ok: true };
   }
+
+  /**
+   * Returns one page of history for `username`, validating the query
+   * first. Banned users get a 403 failure.
+   */
+  async getHistory(
+    username: string,
+    query: HistoryQuery
+  ): Promise<{ ok: true; page: HistoryPage } | Failure> {
+    const banned = await this.checkBan(username);
+    if (banned) {
+      return banned;
+    }
+
+    if (query.before && query.after) {
+      return {
+        ok: false,
+        status: 400,
+        code: "invalid_message",
+        error: "Use either before or after, not both",
+      };
+    }
+
+    if (
+      query.limit !== undefined &&
+      (!Number.isInteger(query.limit) || query.limit < 1)
+    ) {
+      return {
+        ok: false,
+        status: 400,
+        code: "invalid_message",
+        error: "limit must be a positive integer",
+      };
+    }
+
+    const page = await this.getMessages(query);
+    if (!page) {
+      return {
+        ok: false,
+        status: 404,
+        code: "not_found",
+        error: `Unknown message id: ${query.before ?? query.after}`,
+      };
+    }
+    return { ok: true, page };
+  }
+
+  /**
+   * Who is online, and how many connections are open in total.
+   */
+  listMembers(): { members: ChatMember[]; sessionCount: number } {
+    return { members: this.getMembers(), sessionCount: this.sessionCount() };
+  }
+
+  async getModeration(): Promise<ModerationState> {
+    return {
+      config: await this.getModerationConfig(),
+      bans: await this.getSanctions("bans"),
+      mutes: await this.getSanctions("mutes"),
+    };
+  }
+
+  /**
+   * Merges `changes` into the moderation settings. Only moderators (and
+   * CHAT_ADMINS) can change them.
+   */
+  async updateModeration(
+    username: string,
+    changes: Partial<ModerationConfig>
+  ): Promise<{ ok: true; config: ModerationConfig } | Failure> {
+    const denied = await this.requireModerator(username);
+    if (denied) {
+      return denied;
+    }
+
+    const config = { ...(await this.getModerationConfig()), ...changes };
+
+    const error = validateModerationConfig(config);
+    if (error) {
+      return { ok: false, status: 400, code: "invalid_message", error };
+    }
+
+    await this.ctx.storage.put("moderation", config);
+    return { ok: true, config };
+  }
+
+  /**
+   * Merges `changes` into the retention policy and prunes history to match.
+   * Pruning can't be undone, so only moderators can change the policy.
+   */
+  async updateRetention(
+    username: string,
+    changes: Partial<RetentionPolicy>
+  ): Promise<{ ok: true; retention: RetentionPolicy } | Failure> {
+    const denied = await this.requireModerator(username);
+    if (denied) {
+      return denied;
+    }
+
+    const current = await this.getRetention();
+    const retention: RetentionPolicy = {
+      maxMessages:
+        changes.maxMessages === undefined
+          ? current.maxMessages
+          : changes.maxMessages,
+      maxAgeMs:
+        changes.maxAgeMs === undefined ? current.maxAgeMs : changes.maxAgeMs,
+    };
+
+    if (
+      !isValidLimit(retention.maxMessages) ||
+      !isValidLimit(retention.maxAgeMs)
+    ) {
+      return {
+        ok: false,
+        status: 400,
+        code: "invalid_message",
+        error: "maxMessages and maxAgeMs must be positive integers or null",
+      };
+    }
+
+    await this.ctx.storage.put("retention", retention);
+    this.pruneMessages(retention);
+    return { ok: true, retention };
+  }
+
+  private disconnectUser(username: string, code: number, reason: string) {
+    for (const session of this.openSockets()) {
+      if (this.getAttachment(session)?.username === username) {
+        session.close(code, reason);
+        this.handleDeparture(session);
+      }
+    }
+    for (const stream of this.eventStreams.values()) {
+      if (stream.username === username) {
+        stream.close();
+      }
+    }
+  }
+
+  /**
+   * A 403 failure unless `username` moderates this room, either as one of
+   * its `moderators` or as one of CHAT_ADMINS.
+   */
+  private async requireModerator(username: string): Promise<Failure | null> {
+    const config = await this.getModerationConfig();
+    if (
+      config.moderators.includes(username) ||
+      (this.env.CHAT_ADMINS ?? []).includes(username)
+    ) {
+      return null;
+    }
+
+    return {
+      ok: false,
+      status: 403,
+      code: "forbidden",
+      error: `${username} is not a moderator of this room`,
+    };
+  }
+
+  private async getModerationConfig(): Promise<ModerationConfig> {
+    return (
+      (await this.ctx.storage.get<ModerationConfig>("moderation")) ??
+      DEFAULT_MODERATION
+    );
+  }
+
+  private async getSanctions(
+    kind: "bans" | "mutes"
+  ): Promise<Record<string, Sanction>> {
+    return (await this.ctx.storage.get<Record<string, Sanction>>(kind)) ?? {};
+  }
+
+  /**
+   * Returns the active ban or mute for a username, ignoring expired ones.
+   */
+  private async getSanction(
+    kind: "bans" | "mutes",
+    username: string
+  ): Promise<Sanction | null> {
+    const sanction = (await this.getSanctions(kind))[username];
+    if (
+      !sanction ||
+      (sanction.until !== null && sanction.until <= Date.now())
+    ) {
+      return null;
+    }
+    return sanction;
+  }
+
+  private async setSanction(
+    kind: "bans" | "mutes",
+    username: string,
+    sanction: Sanction | null
+  ) {
+    const sanctions = await this.getSanctions(kind);
+    const now = Date.now();
+
+    // Drop expired entries while we're rewriting the list anyway
+    for (const [name, existing] of Object.entries(sanctions)) {
+      if (existing.until !== null && existing.until <= now) {
+        delete sanctions[name];
+      }
+    }
+
+    if (sanction) {
+      sanctions[username] = sanction;
+    } else {
+      delete sanctions[username];
+    }
+
+    await this.ctx.storage.put(kind, sanctions);
+  }
+
+  /**
+   * Re-reads a message after a change and broadcasts it to every session.
+   */
+  private publishUpdate(
+    type: "message-edited" | "message-deleted" | "message-reacted",
+    messageId: string
+  ): MessageUpdate {
+    const message = this.getMessage(messageId);
+    if (!message) {
+      return {
+        ok: false,
+        status: 404,
+        code: "not_found",
+        error: "Message not found",
+      };
+    }
+
+    this.broadcast({ type, message });
+    return { ok: true, message };
+  }
+
+  private getMessage(messageId: string): ChatMessage | null {
+    const row = this.sql
+      .exec<MessageRow>("SELECT * FROM messages WHERE id = ?", messageId)
+      .toArray()[0];
+    return row ? this.withReactions([row])[0] : null;
+  }
+
+  /**
+   * Converts rows to messages, loading reactions for all of them at once.
+   * Pages are contiguous, so the seq range is enough to select them without
+   * binding every id (DO SQL caps bound parameters per query).
+   */
+  private withReactions(rows: MessageRow[]): ChatMessage[] {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const seqs = rows.map((row) => row.seq);
+    const reactions = this.sql
+      .exec<ReactionRow>(
+        `SELECT r.message_id, r.emoji, r.username FROM reactions r
+         JOIN messages m ON m.id = r.message_id
+         WHERE m.seq BETWEEN ? AND ?
+         ORDER BY r.created_at`,
+        Math.min(...seqs),
+        Math.max(...seqs)
+      )
+      .toArray();
+
+    const byMessage = new Map<string, Record<string, string[]>>();
+    for (const reaction of reactions) {
+      const summary = byMessage.get(reaction.message_id) ?? {};
+      (summary[reaction.emoji] ??= []).push(reaction.username);
+      byMessage.set(reaction.message_id, summary);
+    }
+
+    return rows.map((row) => toMessage(row, byMessage.get(row.id)));
+  }
+
+  /**
+   * Returns one page of history in chronological order. Without a cursor
+   * this is the most recent page. Returns null if the cursor id is unknown.
+   */
+  private async getMessages(query: HistoryQuery): Promise<HistoryPage | null> {
+    // Drop anything that aged out while the room was idle
+    this.pruneMessages(await this.getRetention());
+
+    const limit = Math.min(
+      query.limit ?? DEFAULT_HISTORY_LIMIT,
+      MAX_HISTORY_LIMIT
+    );
+    const cursorId = query.before ?? query.after;
+    let rows: MessageRow[];
+
+    if (cursorId !== undefined) {
+      const cursor = this.sql
+        .exec<{ seq: number }>(
+          "SELECT seq FROM messages WHERE id = ?",
+          cursorId
+        )
+        .toArray()[0];
+      if (!cursor) {
+        return null;
+      }
+
+      // Fetch one extra row to find out whether there is another page
+      rows = query.before
+        ? this.sql
+            .exec<MessageRow>(
+              "SELECT * FROM messages WHERE seq < ? ORDER BY seq DESC LIMIT ?",
+              cursor.seq,
+              limit + 1
+            )
+            .toArray()
+        : this.sql
+            .exec<MessageRow>(
+              "SELECT * FROM messages WHERE seq > ? ORDER BY seq ASC LIMIT ?",
+              cursor.seq,
+              limit + 1
+            )
+            .toArray();
+    } else {
+      rows = this.sql
+        .exec<MessageRow>(
+          "SELECT * FROM messages ORDER BY seq DESC LIMIT ?",
+          limit + 1
+        )
+        .toArray();
+    }
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (!query.after) {
+      page.reverse();
+    }
+
+    return { messages: this.withReactions(page), hasMore };
+  }
+
+  async getRetention(): Promise<RetentionPolicy> {
+    return (
+      (await this.ctx.storage.get<RetentionPolicy>("retention")) ??
+      DEFAULT_RETENTION
+    );
+  }
+
+  private pruneMessages(retention: RetentionPolicy) {
+    if (retention.maxAgeMs !== null) {
+      this.sql.exec(
+        "DELETE FROM messages WHERE timestamp < ?",
+        Date.now() - retention.maxAgeMs
+      );
+    }
+
+    if (retention.maxMessages !== null) {
+      // Everything at or below the seq of the (maxMessages + 1)th newest row goes
+      this.sql.exec(
+        `DELETE FROM messages WHERE seq <= (
+          SELECT seq FROM messages ORDER BY seq DESC LIMIT 1 OFFSET ?
+        )`,
+        retention.maxMessages
+      );
+    }
+  }
+
+  private getAttachment(webSocket: WebSocket): SessionAttachment | null {
+    return webSocket.deserializeAttachment() as SessionAttachment | null;
+  }
+
+  /**
+   * Open sockets in this room. A socket that is mid-close may still be
+   * returned by getWebSockets(), so callers handling a departure pass it
+   * as `exclude`.
+   */
+  private openSockets(exclude?: WebSocket): WebSocket[] {
+    return this.ctx
+      .getWebSockets()
+      .filter(
+        (session) =>
+          session !== exclude && session.readyState === WebSocket.OPEN
+      );
+  }
+
+  private sessionCount(exclude?: WebSocket): number {
+    return this.openSockets(exclude).length;
+  }
+
+  private getMembers(exclude?: WebSocket): ChatMember[] {
+    const members = new Map<string, ChatMember>();
+
+    for (const session of this.openSockets(exclude)) {
+      const attachment = this.getAttachment(session);
+      if (!attachment) {
+        continue;
+      }
+
+      const member = members.get(attachment.username);
+      if (member) {
+        member.connections++;
+        member.joinedAt = Math.min(member.joinedAt, attachment.joinedAt);
+      } else {
+        members.set(attachment.username, {
+          username: attachment.username,
+          joinedAt: attachment.joinedAt,
+          connections: 1,
+        });
+      }
+    }
+
+    return Array.from(members.values());
+  }
+
+  private send(webSocket: WebSocket, message: ServerMessage) {
+    webSocket.send(JSON.stringify(message));
+  }
+
+  private sendFailure(
+    webSocket: WebSocket,
+    id: string | undefined,
+    failure: Failure
+  ) {
+    this.send(webSocket, {
+      type: "error",
+      id,
+      code: failure.code,
+      message: failure.error,
+      retryAfterMs: failure.retryAfterMs,
+    });
+  }
+
+  /**
+   * Confirms a client message. Only sent when the client supplied an id.
+   */
+  private ack(webSocket: WebSocket, id?: string, messageId?: string) {
+    if (id !== undefined) {
+      this.send(webSocket, { type: "ack", id, messageId });
+    }
+  }
+
+  private broadcast(message: ServerMessage, exclude?: WebSocket) {
+    const data = JSON.stringify(message);
+
+    // The runtime tracks accepted sockets for us, including across hibernation
+    this.openSockets(exclude).forEach((session) => {
+      try {
+        session.send(data);
+      } catch (error) {
+        // Close broken connections so they drop out of getWebSockets()
+        session.close(1011, "Failed to deliver message");
+      }
+    });
+
+    if (this.eventStreams.size > 0) {
+      const event = formatEvent(message);
+      for (const write of this.eventStreams.keys()) {
+        write(event);
+      }
+    }
+  }
+}
+
+function toMessage(
+  row: MessageRow,
+  reactions?: Record<string, string[]>
+): ChatMessage {
+  const message: ChatMessage = {
+    id: row.id,
+    text: row.text,
+    timestamp: row.timestamp,
+    username: row.username,
+  };
+
+  if (row.edited_at !== null) {
+    message.editedAt = row.edited_at;
+  }
+  if (row.deleted_at !== null) {
+    message.deletedAt = row.deleted_at;
+    message.deletedBy = row.deleted_by ?? undefined;
+  }
+  if (reactions) {
+    message.reactions = reactions;
+  }
+
+  return message;
+}
+
+/**
+ * Encodes a server message as one SSE event. Chat messages carry their id
+ * so EventSource sends it back as Last-Event-ID when it reconnects.
+ */
+function formatEvent(message: ServerMessage): string {
+  const id = message.type === "message" ? `id: ${message.message.id}\n` : "";
+  return `${id}event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`;
+}
+
+function failureResponse(failure: Failure): Response {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (failure.retryAfterMs !== undefined) {
+    headers["Retry-After"] = String(Math.ceil(failure.retryAfterMs / 1000));
+  }
+
+  return new Response(
+    JSON.stringify({
+      error: failure.error,
+      code: failure.code,
+      retry_after_ms: failure.retryAfterMs,
+    }),
+    { status: failure.status, headers }
+  );
+}
+
+/**
+ * Returns an error message if the moderation config is malformed.
+ */
+function validateModerationConfig(config: ModerationConfig): string | null {
+  if (
+    !Array.isArray(config.moderators) ||
+    !config.moderators.every((name) => typeof name === "string" && name)
+  ) {
+    return "moderators must be an array of usernames";
+  }
+
+  if (
+    !Number.isInteger(config.maxMessageLength) ||
+    config.maxMessageLength < 1
+  ) {
+    return "maxMessageLength must be a positive integer";
+  }
+
+  if (!Array.isArray(config.blockedPatterns)) {
+    return "blockedPatterns must be an array of regular expressions";
+  }
+  for (const pattern of config.blockedPatterns) {
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      return `Invalid blocked pattern: ${String(pattern)}`;
+    }
+  }
+
+  return null;
+}
+
+function isValidLimit(value: unknown): value is number | null {
+  return value === null || (Number.isInteger(value) && (value as number) > 0);
 }
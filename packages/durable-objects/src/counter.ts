@@ -1,69 +1,841 @@
 /**
  * Counter Durable Object
  *
- * A simple counter that demonstrates:
+ * Named counters that demonstrate:
  * - Persistent storage using this.ctx.storage
  * - State management across requests
- * - HTTP request handling
+ * - Atomic read-modify-write: the runtime's input gate keeps other requests
+ *   out between a read and the write that follows it, so adds and
+ *   compare-and-set never lose updates
+ * - RPC methods, with HTTP request handling as a thin adapter over them
+ *
+ * One object can hold many counters (e.g. one per SKU in an inventory);
+ * each is stored under `counter:<name>`. Adds can be bounded, so stock can
+ * be taken without ever going below zero or a quota filled without
+ * passing its limit.
+ *
+ * A counter too hot for one object can be sharded: writes are spread over
+ * N shard objects named `<name>#<i>`, and the object named `<name>` acts
+ * as the aggregator. It sums the shards on demand and caches the total,
+ * which an alarm keeps refreshing for as long as the total is being read.
+ * Bounds and compare-and-set need a single value, so they aren't available
+ * on sharded counters.
+ *
+ * Every change is also logged to a `counter_changes` table in the object's
+ * SQLite database with its delta, the resulting value, the time and the
+ * caller, so a counter's history can be paged through and summed into
+ * minute, hour or day buckets. Raw changes older than a week are compacted
+ * into hourly buckets by the alarm.
  */
 
 import { DurableObject } from "cloudflare:workers";
+import { getAuthenticatedUser } from "./auth";
+import { migrate, type Migration } from "./migrations";
+
+export const DEFAULT_COUNTER = "default";
+
+const KEY_PREFIX = "counter:";
+const AGGREGATE_PREFIX = "aggregate:";
+
+// How old a cached total may be before a read fans out to the shards again
+const DEFAULT_TOTAL_MAX_AGE_MS = 5_000;
+// How often the alarm refreshes cached totals
+const AGGREGATE_REFRESH_MS = 2_000;
+// Totals that haven't been read for this long stop being refreshed
+const AGGREGATE_IDLE_MS = 60_000;
+
+// Raw changes are kept this long, then compacted into hourly buckets
+const RAW_HISTORY_MS = 7 * 24 * 60 * 60 * 1000;
+const COMPACTED_BUCKET_MS = 60 * 60 * 1000;
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+const BUCKET_MS = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+interface Env {
+  // This class's own namespace, for reaching the shards of a counter
+  COUNTER?: DurableObjectNamespace<Counter>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Move the single counter under its name",
+    async up(storage) {
+      // Counters used to live under a single "counter" key
+      const legacy = await storage.get<number>("counter");
+      if (legacy !== undefined) {
+        await storage.put(KEY_PREFIX + DEFAULT_COUNTER, legacy);
+        await storage.delete("counter");
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Create change history tables",
+    up(storage) {
+      storage.sql.exec(`
+        CREATE TABLE IF NOT EXISTS counter_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          counter TEXT NOT NULL,
+          delta INTEGER NOT NULL,
+          value INTEGER NOT NULL,
+          changed_at INTEGER NOT NULL,
+          caller TEXT
+        )
+      `);
+      storage.sql.exec(
+        "CREATE INDEX IF NOT EXISTS counter_changes_by_counter ON counter_changes (counter, id)"
+      );
+      storage.sql.exec(
+        "CREATE INDEX IF NOT EXISTS counter_changes_by_time ON counter_changes (changed_at)"
+      );
+      // Compacted changes: one row per counter and hour
+      storage.sql.exec(`
+        CREATE TABLE IF NOT EXISTS counter_buckets (
+          counter TEXT NOT NULL,
+          bucket_start INTEGER NOT NULL,
+          delta INTEGER NOT NULL,
+          changes INTEGER NOT NULL,
+          value INTEGER NOT NULL,
+          PRIMARY KEY (counter, bucket_start)
+        )
+      `);
+    },
+  },
+];
+
+type ChangeRow = {
+  id: number;
+  delta: number;
+  value: number;
+  changed_at: number;
+  caller: string | null;
+};
+
+type BucketRow = {
+  start: number;
+  delta: number;
+  changes: number;
+  value: number;
+};
+
+/**
+ * Limits an add must respect. The add is rejected, not clamped, when the
+ * new value would fall outside them.
+ */
+export interface CounterBounds {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Outcome of a conditional update. A rejected update reports the current
+ * value so the caller can retry.
+ */
+export type CounterUpdate =
+  { ok: true; value: number } | { ok: false; value: number; error: string };
+
+export interface CounterEntry {
+  name: string;
+  value: number;
+}
+
+/**
+ * One logged change. `caller` is the authenticated user who made it, when
+ * known.
+ */
+export interface CounterChange {
+  id: number;
+  delta: number;
+  value: number;
+  changedAt: number;
+  caller: string | null;
+}
+
+/**
+ * Pages through history by change id: the latest changes by default,
+ * older ones with `before` or newer ones with `after`.
+ */
+export interface CounterHistoryQuery {
+  before?: number;
+  after?: number;
+  limit?: number;
+}
 
-export class Counter extends DurableObject<Record<string, never>> {
-  constructor(ctx: DurableObjectState, env: Record<string, never>) {
+export interface CounterHistory {
+  changes: CounterChange[];
+  hasMore: boolean;
+}
+
+export type CounterBucket = keyof typeof BUCKET_MS;
+
+/**
+ * Changes summed over one bucket. `value` is the counter's value after the
+ * bucket's last change.
+ */
+export interface CounterStatsBucket {
+  start: number;
+  delta: number;
+  changes: number;
+  value: number;
+}
+
+/**
+ * Changes summed over one bucket across every shard. Shards only know their
+ * own values, so there is no resulting total.
+ */
+export type ShardedStatsBucket = Omit<CounterStatsBucket, "value">;
+
+/**
+ * The sum of a sharded counter.
+ */
+export interface ShardedTotal {
+  value: number;
+  shards: number;
+  // When the shards were last summed
+  cachedAt: number;
+}
+
+/**
+ * A cached total, kept by the aggregator under `aggregate:<counter>`.
+ */
+interface StoredAggregate extends ShardedTotal {
+  name: string;
+  counter: string;
+  readAt: number;
+}
+
+/**
+ * Name of the object holding shard `index` of the counters named `name`.
+ */
+export function shardName(name: string, index: number): string {
+  return `${name}#${index}`;
+}
+
+export class Counter extends DurableObject<Env> {
+  private sql: SqlStorage;
+
+  constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
+    this.sql = ctx.storage.sql;
+
+    this.ctx.blockConcurrencyWhile(async () => {
+      await migrate(this.ctx.storage, MIGRATIONS, "Counter");
+    });
   }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
+    const counter = url.searchParams.get("counter") || DEFAULT_COUNTER;
+    const caller = getAuthenticatedUser(request);
 
-    // Get current counter value
-    if (url.pathname === "/counter/value") {
-      const value = (await this.ctx.storage.get<number>("counter")) ?? 0;
-      return new Response(JSON.stringify({ value }), {
-        headers: { "Content-Type": "application/json" },
-      });
-    }
+    try {
+      // Get current counter value
+      if (url.pathname === "/counter/value") {
+        const value = await this.getValue(counter);
+        return json({ counter, value });
+      }
+
+      // List every counter in this object
+      if (url.pathname === "/counter/list" && request.method === "GET") {
+        return json({ counters: await this.list() });
+      }
+
+      // Page through a counter's changes
+      if (url.pathname === "/counter/history" && request.method === "GET") {
+        const history = this.getHistory(counter, {
+          before: numberParam(url, "before"),
+          after: numberParam(url, "after"),
+          limit: numberParam(url, "limit"),
+        });
+        return json({ counter, ...history });
+      }
+
+      // Changes summed per minute, hour or day
+      if (url.pathname === "/counter/stats" && request.method === "GET") {
+        const bucket = (url.searchParams.get("bucket") ||
+          "hour") as CounterBucket;
+        const buckets = this.getStats(
+          counter,
+          bucket,
+          numberParam(url, "since"),
+          numberParam(url, "until")
+        );
+        return json({ counter, bucket, buckets });
+      }
+
+      // Increment counter
+      if (url.pathname === "/counter/increment" && request.method === "POST") {
+        const value = await this.increment(1, counter, caller);
+        return json({ counter, value, action: "incremented" });
+      }
 
-    // Increment counter
-    if (url.pathname === "/counter/increment") {
-      const current = (await this.ctx.storage.get<number>("counter")) ?? 0;
-      const newValue = current + 1;
-      await this.ctx.storage.put("counter", newValue);
-      return new Response(
-        JSON.stringify({ value: newValue, action: "incremented" }),
-        {
-          headers: { "Content-Type": "application/json" },
+      // Decrement counter
+      if (url.pathname === "/counter/decrement" && request.method === "POST") {
+        const value = await this.decrement(1, counter, caller);
+        return json({ counter, value, action: "decremented" });
+      }
+
+      // Add any delta, optionally within bounds
+      if (url.pathname === "/counter/add" && request.method === "POST") {
+        const body = await request.json<
+          { counter?: string; delta: number } & CounterBounds
+        >();
+        const name = body.counter || counter;
+        const result = await this.add(
+          body.delta,
+          name,
+          { min: body.min, max: body.max },
+          caller
+        );
+        if (!result.ok) {
+          return json({ error: result.error, value: result.value }, 409);
         }
-      );
-    }
+        return json({ counter: name, value: result.value, action: "added" });
+      }
 
-    // Decrement counter
-    if (url.pathname === "/counter/decrement") {
-      const current = (await this.ctx.storage.get<number>("counter")) ?? 0;
-      const newValue = current - 1;
-      await this.ctx.storage.put("counter", newValue);
-      return new Response(
-        JSON.stringify({ value: newValue, action: "decremented" }),
-        {
-          headers: { "Content-Type": "application/json" },
+      // Set the value only if it still has the expected value
+      if (url.pathname === "/counter/cas" && request.method === "POST") {
+        const body = await request.json<{
+          counter?: string;
+          expected: number;
+          value: number;
+        }>();
+        const name = body.counter || counter;
+        const result = await this.compareAndSet(
+          body.expected,
+          body.value,
+          name,
+          caller
+        );
+        if (!result.ok) {
+          return json({ error: result.error, value: result.value }, 409);
         }
-      );
-    }
+        return json({ counter: name, value: result.value, action: "set" });
+      }
 
-    // Reset counter
-    if (url.pathname === "/counter/reset" && request.method === "POST") {
-      await this.ctx.storage.put("counter", 0);
-      return new Response(JSON.stringify({ value: 0, action: "reset" }), {
-        headers: { "Content-Type": "application/json" },
-      });
+      // Reset counter
+      if (url.pathname === "/counter/reset" && request.method === "POST") {
+        const value = await this.reset(counter, caller);
+        return json({ counter, value, action: "reset" });
+      }
+    } catch (error) {
+      if (error instanceof RangeError || error instanceof SyntaxError) {
+        return json({ error: error.message }, 400);
+      }
+      throw error;
     }
 
     return new Response(
-      "Counter endpoint. Try /counter/value, /counter/increment, or /counter/decrement",
+      "Counter endpoint. Try /counter/value, /counter/add, /counter/cas, /counter/list, /counter/history or /counter/stats",
       {
         status: 404,
       }
     );
   }
+
+  async getValue(counter: string = DEFAULT_COUNTER): Promise<number> {
+    return (await this.ctx.storage.get<number>(KEY_PREFIX + counter)) ?? 0;
+  }
+
+  /**
+   * Adds `by` to the counter and returns the new value. Each mutating
+   * method takes the `caller` to record in the counter's history.
+   */
+  async increment(
+    by: number = 1,
+    counter: string = DEFAULT_COUNTER,
+    caller: string | null = null
+  ): Promise<number> {
+    const result = await this.add(by, counter, {}, caller);
+    return result.value;
+  }
+
+  async decrement(
+    by: number = 1,
+    counter: string = DEFAULT_COUNTER,
+    caller: string | null = null
+  ): Promise<number> {
+    return this.increment(-by, counter, caller);
+  }
+
+  /**
+   * Adds `delta` (which may be negative) unless the result would fall
+   * outside `bounds`. Throws a RangeError for non-integer deltas.
+   */
+  async add(
+    delta: number,
+    counter: string = DEFAULT_COUNTER,
+    bounds: CounterBounds = {},
+    caller: string | null = null
+  ): Promise<CounterUpdate> {
+    checkInteger("delta", delta);
+    if (bounds.min !== undefined) {
+      checkInteger("min", bounds.min);
+    }
+    if (bounds.max !== undefined) {
+      checkInteger("max", bounds.max);
+    }
+
+    const current = await this.getValue(counter);
+    const value = current + delta;
+    checkInteger("value", value);
+
+    if (bounds.min !== undefined && value < bounds.min) {
+      return {
+        ok: false,
+        value: current,
+        error: `${counter} can't go below ${bounds.min}`,
+      };
+    }
+    if (bounds.max !== undefined && value > bounds.max) {
+      return {
+        ok: false,
+        value: current,
+        error: `${counter} can't go above ${bounds.max}`,
+      };
+    }
+
+    await this.setValue(counter, value, delta, caller);
+    return { ok: true, value };
+  }
+
+  /**
+   * Sets the counter to `value` if it currently equals `expected`.
+   */
+  async compareAndSet(
+    expected: number,
+    value: number,
+    counter: string = DEFAULT_COUNTER,
+    caller: string | null = null
+  ): Promise<CounterUpdate> {
+    checkInteger("expected", expected);
+    checkInteger("value", value);
+
+    const current = await this.getValue(counter);
+    if (current !== expected) {
+      return {
+        ok: false,
+        value: current,
+        error: `${counter} is ${current}, not ${expected}`,
+      };
+    }
+
+    await this.setValue(counter, value, value - current, caller);
+    return { ok: true, value };
+  }
+
+  async reset(
+    counter: string = DEFAULT_COUNTER,
+    caller: string | null = null
+  ): Promise<number> {
+    const current = await this.getValue(counter);
+    await this.setValue(counter, 0, -current, caller);
+    return 0;
+  }
+
+  /**
+   * A page of the counter's changes in chronological order. Only changes
+   * from the last week are kept individually; older ones are in
+   * `getStats`. Throws a RangeError for invalid queries.
+   */
+  getHistory(
+    counter: string = DEFAULT_COUNTER,
+    query: CounterHistoryQuery = {}
+  ): CounterHistory {
+    if (query.before !== undefined && query.after !== undefined) {
+      throw new RangeError("Use either before or after, not both");
+    }
+    for (const param of ["before", "after", "limit"] as const) {
+      if (query[param] !== undefined) {
+        checkInteger(param, query[param]);
+      }
+    }
+    if (query.limit !== undefined && query.limit < 1) {
+      throw new RangeError("limit must be at least 1");
+    }
+    const limit = Math.min(
+      query.limit ?? DEFAULT_HISTORY_LIMIT,
+      MAX_HISTORY_LIMIT
+    );
+
+    // Fetch one extra row to learn whether there is more
+    let rows: ChangeRow[];
+    if (query.after !== undefined) {
+      rows = this.sql
+        .exec<ChangeRow>(
+          "SELECT id, delta, value, changed_at, caller FROM counter_changes WHERE counter = ? AND id > ? ORDER BY id LIMIT ?",
+          counter,
+          query.after,
+          limit + 1
+        )
+        .toArray();
+    } else {
+      rows = this.sql
+        .exec<ChangeRow>(
+          "SELECT id, delta, value, changed_at, caller FROM counter_changes WHERE counter = ? AND id < ? ORDER BY id DESC LIMIT ?",
+          counter,
+          query.before ?? Number.MAX_SAFE_INTEGER,
+          limit + 1
+        )
+        .toArray();
+    }
+
+    const hasMore = rows.length > limit;
+    rows = rows.slice(0, limit);
+    if (query.after === undefined) {
+      rows.reverse();
+    }
+
+    return {
+      changes: rows.map((row) => ({
+        id: row.id,
+        delta: row.delta,
+        value: row.value,
+        changedAt: row.changed_at,
+        caller: row.caller,
+      })),
+      hasMore,
+    };
+  }
+
+  /**
+   * The counter's changes summed per `bucket`, oldest first, for changes
+   * at or after `since` and before `until`. Changes older than a week have
+   * been compacted into hours, so minute buckets for them show each hour as
+   * one bucket at its start.
+   */
+  getStats(
+    counter: string = DEFAULT_COUNTER,
+    bucket: CounterBucket = "hour",
+    since: number = 0,
+    until: number = Number.MAX_SAFE_INTEGER
+  ): CounterStatsBucket[] {
+    if (!["minute", "hour", "day"].includes(bucket)) {
+      throw new RangeError("bucket must be minute, hour or day");
+    }
+    checkInteger("since", since);
+    checkInteger("until", until);
+    const size = BUCKET_MS[bucket];
+
+    // With MAX() as the only aggregate, SQLite takes the bare `value`
+    // column from the row holding the maximum: the bucket's last change
+    const compacted = this.sql
+      .exec<BucketRow>(
+        `SELECT CAST(bucket_start / ? AS INTEGER) * ? AS start,
+          SUM(delta) AS delta, SUM(changes) AS changes, value,
+          MAX(bucket_start) AS last
+        FROM counter_buckets
+        WHERE counter = ? AND bucket_start >= ? AND bucket_start < ?
+        GROUP BY start`,
+        size,
+        size,
+        counter,
+        since,
+        until
+      )
+      .toArray();
+    const raw = this.sql
+      .exec<BucketRow>(
+        `SELECT CAST(changed_at / ? AS INTEGER) * ? AS start,
+          SUM(delta) AS delta, COUNT(*) AS changes, value, MAX(id) AS last
+        FROM counter_changes
+        WHERE counter = ? AND changed_at >= ? AND changed_at < ?
+        GROUP BY start`,
+        size,
+        size,
+        counter,
+        since,
+        until
+      )
+      .toArray();
+
+    // Compacted changes are all older than raw ones, so where both fall in
+    // one bucket the raw value is the later one
+    const buckets = new Map<number, CounterStatsBucket>();
+    for (const row of [...compacted, ...raw]) {
+      const existing = buckets.get(row.start);
+      buckets.set(row.start, {
+        start: row.start,
+        delta: (existing?.delta ?? 0) + row.delta,
+        changes: (existing?.changes ?? 0) + row.changes,
+        value: row.value,
+      });
+    }
+    return Array.from(buckets.values()).sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Aggregator: the sum of `counter` over the shards of `name`, served from
+   * the cache when it is at most `maxAgeMs` old. Pass 0 to always sum the
+   * shards.
+   */
+  async getTotal(
+    name: string,
+    shards: number,
+    counter: string = DEFAULT_COUNTER,
+    maxAgeMs: number = DEFAULT_TOTAL_MAX_AGE_MS
+  ): Promise<ShardedTotal> {
+    const key = AGGREGATE_PREFIX + counter;
+    const now = Date.now();
+    const cached = await this.ctx.storage.get<StoredAggregate>(key);
+
+    let total: ShardedTotal;
+    if (
+      cached &&
+      cached.shards === shards &&
+      now - cached.cachedAt <= maxAgeMs
+    ) {
+      total = {
+        value: cached.value,
+        shards: cached.shards,
+        cachedAt: cached.cachedAt,
+      };
+    } else {
+      total = {
+        value: await this.sumShards(name, shards, counter),
+        shards,
+        cachedAt: Date.now(),
+      };
+    }
+
+    await this.ctx.storage.put<StoredAggregate>(key, {
+      ...total,
+      name,
+      counter,
+      readAt: now,
+    });
+
+    // Keep the total warm while it is being read
+    await this.scheduleAlarm(now + AGGREGATE_REFRESH_MS);
+    return total;
+  }
+
+  /**
+   * Aggregator: every counter over the shards of `name`, summed.
+   */
+  async listTotals(name: string, shards: number): Promise<CounterEntry[]> {
+    const totals = new Map<string, number>();
+    const lists = await Promise.all(
+      this.shardStubs(name, shards).map((stub) => stub.list())
+    );
+    for (const entry of lists.flat()) {
+      totals.set(entry.name, (totals.get(entry.name) ?? 0) + entry.value);
+    }
+    return Array.from(totals, ([counter, value]) => ({ name: counter, value }));
+  }
+
+  /**
+   * Aggregator: `getStats` summed over the shards of `name`.
+   */
+  async getTotalStats(
+    name: string,
+    shards: number,
+    counter: string = DEFAULT_COUNTER,
+    bucket: CounterBucket = "hour",
+    since?: number,
+    until?: number
+  ): Promise<ShardedStatsBucket[]> {
+    const buckets = new Map<number, ShardedStatsBucket>();
+    const stats = await Promise.all(
+      this.shardStubs(name, shards).map((stub) =>
+        stub.getStats(counter, bucket, since, until)
+      )
+    );
+    for (const row of stats.flat()) {
+      const existing = buckets.get(row.start);
+      buckets.set(row.start, {
+        start: row.start,
+        delta: (existing?.delta ?? 0) + row.delta,
+        changes: (existing?.changes ?? 0) + row.changes,
+      });
+    }
+    return Array.from(buckets.values()).sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Aggregator: resets `counter` on every shard of `name`.
+   */
+  async resetShards(
+    name: string,
+    shards: number,
+    counter: string = DEFAULT_COUNTER
+  ): Promise<void> {
+    await Promise.all(
+      this.shardStubs(name, shards).map((stub) => stub.reset(counter))
+    );
+    await this.ctx.storage.delete(AGGREGATE_PREFIX + counter);
+  }
+
+  /**
+   * Compacts week-old changes, refreshes the cached totals that are still
+   * being read and drops the rest.
+   */
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    this.compactHistory(now);
+
+    const aggregates = await this.ctx.storage.list<StoredAggregate>({
+      prefix: AGGREGATE_PREFIX,
+    });
+
+    let active = false;
+    for (const [key, aggregate] of aggregates) {
+      if (now - aggregate.readAt > AGGREGATE_IDLE_MS) {
+        await this.ctx.storage.delete(key);
+        continue;
+      }
+
+      active = true;
+      const value = await this.sumShards(
+        aggregate.name,
+        aggregate.shards,
+        aggregate.counter
+      );
+      await this.ctx.storage.put<StoredAggregate>(key, {
+        ...aggregate,
+        value,
+        cachedAt: Date.now(),
+      });
+    }
+
+    if (active) {
+      await this.scheduleAlarm(Date.now() + AGGREGATE_REFRESH_MS);
+    }
+    const oldest = this.sql
+      .exec<{ changed_at: number }>(
+        "SELECT changed_at FROM counter_changes ORDER BY changed_at LIMIT 1"
+      )
+      .toArray()[0];
+    if (oldest) {
+      await this.scheduleAlarm(compactionDue(oldest.changed_at));
+    }
+  }
+
+  async list(): Promise<CounterEntry[]> {
+    const counters = await this.ctx.storage.list<number>({
+      prefix: KEY_PREFIX,
+    });
+    return Array.from(counters, ([key, value]) => ({
+      name: key.slice(KEY_PREFIX.length),
+      value,
+    }));
+  }
+
+  /**
+   * Stores the counter's new value and logs the change.
+   */
+  private async setValue(
+    counter: string,
+    value: number,
+    delta: number,
+    caller: string | null
+  ) {
+    const now = Date.now();
+    await this.ctx.storage.put(KEY_PREFIX + counter, value);
+    this.sql.exec(
+      "INSERT INTO counter_changes (counter, delta, value, changed_at, caller) VALUES (?, ?, ?, ?, ?)",
+      counter,
+      delta,
+      value,
+      now,
+      caller
+    );
+    await this.scheduleAlarm(compactionDue(now));
+  }
+
+  /**
+   * Rolls raw changes from before the last whole hour more than a week ago
+   * into hourly buckets.
+   */
+  private compactHistory(now: number) {
+    const cutoff =
+      Math.floor((now - RAW_HISTORY_MS) / COMPACTED_BUCKET_MS) *
+      COMPACTED_BUCKET_MS;
+
+    // The WHERE clause keeps SQLite from reading ON CONFLICT as a join
+    this.sql.exec(
+      `INSERT INTO counter_buckets (counter, bucket_start, delta, changes, value)
+      SELECT counter, start, delta, changes, value FROM (
+        SELECT counter, CAST(changed_at / ? AS INTEGER) * ? AS start,
+          SUM(delta) AS delta, COUNT(*) AS changes, value, MAX(id)
+        FROM counter_changes
+        WHERE changed_at < ?
+        GROUP BY counter, start
+      ) WHERE true
+      ON CONFLICT (counter, bucket_start) DO UPDATE SET
+        delta = delta + excluded.delta,
+        changes = changes + excluded.changes,
+        value = excluded.value`,
+      COMPACTED_BUCKET_MS,
+      COMPACTED_BUCKET_MS,
+      cutoff
+    );
+    this.sql.exec("DELETE FROM counter_changes WHERE changed_at < ?", cutoff);
+  }
+
+  /**
+   * Sets the alarm for `at` unless it is already set to go off sooner.
+   */
+  private async scheduleAlarm(at: number) {
+    const current = await this.ctx.storage.getAlarm();
+    if (current === null || current > at) {
+      await this.ctx.storage.setAlarm(at);
+    }
+  }
+
+  private async sumShards(
+    name: string,
+    shards: number,
+    counter: string
+  ): Promise<number> {
+    const values = await Promise.all(
+      this.shardStubs(name, shards).map((stub) => stub.getValue(counter))
+    );
+    return values.reduce((sum, value) => sum + value, 0);
+  }
+
+  private shardStubs(name: string, shards: number) {
+    const namespace = this.env.COUNTER;
+    if (!namespace) {
+      throw new Error("Sharded counters need the COUNTER binding");
+    }
+    if (!Number.isInteger(shards) || shards < 1) {
+      throw new RangeError("shards must be a positive integer");
+    }
+    return Array.from({ length: shards }, (_, index) =>
+      namespace.get(namespace.idFromName(shardName(name, index)))
+    );
+  }
+}
+
+function checkInteger(name: string, value: unknown) {
+  if (!Number.isSafeInteger(value)) {
+    throw new RangeError(`${name} must be an integer`);
+  }
+}
+
+/**
+ * When a change made at `changedAt` is old enough to be compacted.
+ */
+function compactionDue(changedAt: number): number {
+  return changedAt + RAW_HISTORY_MS + COMPACTED_BUCKET_MS;
+}
+
+function numberParam(url: URL, name: string): number | undefined {
+  const param = url.searchParams.get(name);
+  return param === null ? undefined : Number(param);
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
 }
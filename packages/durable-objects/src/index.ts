@@ -1,10 +1,85 @@
-export { Counter } from "./counter";
+export { Counter, DEFAULT_COUNTER, shardName } from "./counter";
+export type {
+  CounterBounds,
+  CounterBucket,
+  CounterChange,
+  CounterEntry,
+  CounterHistory,
+  CounterHistoryQuery,
+  CounterStatsBucket,
+  CounterUpdate,
+  ShardedStatsBucket,
+  ShardedTotal,
+} from "./counter";
 export { ChatRoom } from "./chat-room";
+export type {
+  Failure as ChatFailure,
+  HistoryPage,
+  HistoryQuery,
+  MessageUpdate,
+  ModerationConfig,
+  ModerationState,
+  RetentionPolicy,
+  Sanction,
+} from "./chat-room";
+export { PROTOCOL_VERSION, parseClientMessage } from "./chat-protocol";
+export type {
+  ChatMessage,
+  ChatMember,
+  ClientMessage,
+  ClientMessageType,
+  ServerMessage,
+  ErrorCode,
+  ModerationAction,
+  ParseResult,
+} from "./chat-protocol";
 export { Batcher } from "./batcher";
-export { RateLimiter } from "./rate-limiter";
+export type {
+  BatcherConfig,
+  BatcherStatus,
+  DeadLetter,
+  EnqueueOptions,
+  EnqueueResult,
+  FlushResult,
+} from "./batcher";
+export type { BatchItem, BatchReceiver, SinkConfig } from "./batch-sinks";
+export {
+  RateLimiter,
+  DEFAULT_RATE_LIMIT,
+  rateLimitHeaders,
+} from "./rate-limiter";
+export type { RateLimitConfig } from "./rate-limiter";
+export type {
+  RateLimitAlgorithm,
+  RateLimitPolicy,
+  RateLimitResult,
+} from "./rate-limit-algorithms";
 export { Location } from "./location";
-export { Session } from "./session";
+export { DEFAULT_TTL_SECONDS, Session, SessionError } from "./session";
+export type {
+  SessionConfig,
+  SessionData,
+  SessionExpiry,
+  SessionOptions,
+  SessionSetOptions,
+  SessionSnapshot,
+  SessionTtl,
+  SessionUpdate,
+  SessionValue,
+} from "./session";
 export { Streamer } from "./streamer";
 export { MyDurableObject, RpcDO } from "./rpc-target";
 export { KVStore } from "./kv-store";
+export type {
+  KVListEntry,
+  KVListResult,
+  KVReadResult,
+  KVStoreConfig,
+  KVStoreMode,
+  KVStoreStats,
+  KVStreamResult,
+  KVWriteOptions,
+} from "./kv-store";
 export { LatencyTester } from "./latency-tester";
+export type { LatencyMeasurement } from "./latency-tester";
+export { AUTHENTICATED_USER_HEADER, getAuthenticatedUser } from "./auth";
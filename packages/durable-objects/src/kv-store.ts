@@ -4,6 +4,101 @@ interface Env {
   KV_CACHE: KVNamespace;
 }
 
+// In cache mode, values live in this object's storage under this prefix,
+// apart from the statistics
+const VALUE_PREFIX = "value:";
+const CONFIG_KEY = "config";
+// KV won't cache reads at the edge for less than this
+const MIN_CACHE_TTL_SECONDS = 60;
+// KV's limits: keys expire at least a minute out, metadata is small
+const MIN_EXPIRATION_TTL_SECONDS = 60;
+const MAX_METADATA_BYTES = 1024;
+// Cache mode stores a value together with its metadata, expiration and
+// version as one storage value, which storage limits to 2 MiB. The rest of
+// the entry fits in the headroom (metadata is at most MAX_METADATA_BYTES)
+const MAX_STORED_ENTRY_BYTES = 2 * 1024 * 1024;
+const ENTRY_HEADROOM_BYTES = 4 * 1024;
+const MAX_STORED_VALUE_BYTES = MAX_STORED_ENTRY_BYTES - ENTRY_HEADROOM_BYTES;
+// Carry metadata and the read's source alongside binary values
+const METADATA_HEADER = "X-KV-Metadata";
+const SOURCE_HEADER = "X-KV-Source";
+
+export type KVStoreMode = "kv" | "cache";
+
+export interface KVStoreConfig {
+  // "kv" keeps values only in KV. "cache" keeps them in this object's
+  // storage, the source of truth, and uses KV as a cache in front of it
+  mode: KVStoreMode;
+  // How long KV may serve a read from its edge cache, in seconds
+  cacheTtl: number;
+  // What a write in cache mode does to the cached value: replace it, or
+  // delete it so the next read fetches it from storage
+  onWrite: "update" | "invalidate";
+}
+
+const DEFAULT_CONFIG: KVStoreConfig = {
+  mode: "kv",
+  cacheTtl: MIN_CACHE_TTL_SECONDS,
+  onWrite: "update",
+};
+
+export interface KVWriteOptions {
+  // When the key expires, in seconds since the epoch
+  expiration?: number;
+  // Or how many seconds from now it expires
+  expirationTtl?: number;
+  // Any JSON, up to 1024 bytes; returned with reads and lists
+  metadata?: unknown;
+}
+
+export interface KVReadResult {
+  value: string | null;
+  // The metadata written with the value, or null
+  metadata: unknown;
+  // Where the value came from: KV, or this object's storage after a
+  // cache miss
+  source: "kv" | "storage";
+  // Reads made through this object, including this one
+  readCount: number;
+}
+
+export interface KVStreamResult extends Omit<KVReadResult, "value"> {
+  value: ReadableStream | null;
+}
+
+export interface KVListEntry {
+  name: string;
+  // Seconds since the epoch, for keys that expire
+  expiration?: number;
+  metadata?: unknown;
+}
+
+export interface KVListResult {
+  keys: KVListEntry[];
+  listComplete: boolean;
+  // Pass back to `list` for the next page
+  cursor?: string;
+}
+
+/**
+ * A value kept in storage in cache mode.
+ */
+interface StoredEntry {
+  value: string | ArrayBuffer;
+  metadata: unknown;
+  // Seconds since the epoch, or null
+  expiration: number | null;
+  // Changes with every write, so a cache fill can tell it raced one
+  version: string | null;
+}
+
+export interface KVStoreStats {
+  totalWrites: number;
+  totalReads: number;
+  lastKeyWritten: string | null;
+  lastKeyRead: string | null;
+}
+
 /**
  * KVStore demonstrates using Workers KV from within a Durable Object
  *
@@ -13,11 +108,29 @@ interface Env {
  * - Read data from KV
  * - Use KV as a cache layer alongside Durable Object storage
  *
+ * By default values live only in KV. In cache mode (see `KVStoreConfig`)
+ * the object's storage holds them instead, so writes are strongly
+ * consistent: they go to storage first and then update or invalidate KV.
+ * Reads try KV and fall through to storage on a miss, repopulating KV.
+ * Cached entries are keyed by object id, so stores don't share entries.
+ *
+ * Values can be text or binary, and carry KV's expiration and metadata in
+ * either mode. Binary values are streamed to and from KV.
+ *
+ * Each operation is a public RPC method; the HTTP routes are thin adapters
+ * over them.
+ *
  * Common use cases:
  * - Using KV for read-heavy cached data (high read performance)
  * - Using DO storage for write-heavy transactional data
  * - Combining both for hybrid storage strategies
  */
+/**
+ * A value too large for cache mode's storage, answered with 413. Over RPC
+ * it arrives as a plain RangeError.
+ */
+class ValueTooLargeError extends RangeError {}
+
 export class KVStore extends DurableObject<Env> {
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
@@ -26,39 +139,70 @@ export class KVStore extends DurableObject<Env> {
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
 
-    // PUT /kv - Write to KV
+    // PUT /kv - Write to KV. JSON bodies carry the key, value and options;
+    // application/octet-stream bodies are the value, with the key and
+    // expiry in the query and metadata in the X-KV-Metadata header
     if (url.pathname === "/kv" && request.method === "PUT") {
       try {
-        const body = await request.json<{ key: string; value: string }>();
+        let key: string | null;
+        let value: string | ReadableStream | null;
+        let options: KVWriteOptions;
+        if (isBinary(request)) {
+          key = url.searchParams.get("key");
+          value = request.body ?? "";
+          options = {
+            expiration: numberParam(url, "expiration"),
+            expirationTtl: numberParam(url, "expirationTtl"),
+            metadata: parseMetadata(request.headers.get(METADATA_HEADER)),
+          };
+        } else {
+          const body = await request.json<
+            { key?: unknown; value?: unknown } & KVWriteOptions
+          >();
+          key = typeof body.key === "string" ? body.key : null;
+          value = typeof body.value === "string" ? body.value : null;
+          options = {
+            expiration: body.expiration,
+            expirationTtl: body.expirationTtl,
+            metadata: body.metadata,
+          };
+        }
 
-        if (!body.key || !body.value) {
+        if (!key || value === null) {
           return Response.json(
             { error: "Missing key or value in request body" },
             { status: 400 }
           );
         }
 
-        // Write to KV
-        await this.env.KV_CACHE.put(body.key, body.value);
-
-        // Also track the write in DO storage for metadata
-        const writeCount =
-          (await this.ctx.storage.get<number>("write_count")) || 0;
-        await this.ctx.storage.put("write_count", writeCount + 1);
-        await this.ctx.storage.put("last_key_written", body.key);
+        const writeCount = await this.put(key, value, options);
+        const { mode } = await this.getConfig();
 
         return Response.json({
           success: true,
-          message: `Wrote key "${body.key}" to KV`,
-          write_count: writeCount + 1,
+          message:
+            mode === "cache"
+              ? `Wrote key "${key}" to storage`
+              : `Wrote key "${key}" to KV`,
+          write_count: writeCount,
         });
       } catch (error) {
-        return Response.json(
-          {
-            error: "Invalid JSON body. Expected {key: string, value: string}",
-          },
-          { status: 400 }
-        );
+        if (error instanceof ValueTooLargeError) {
+          return Response.json({ error: error.message }, { status: 413 });
+        }
+        if (error instanceof RangeError) {
+          return Response.json({ error: error.message }, { status: 400 });
+        }
+        if (error instanceof SyntaxError) {
+          return Response.json(
+            {
+              error:
+                "Invalid JSON body. Expected {key: string, value: string, expiration?, expirationTtl?, metadata?}",
+            },
+            { status: 400 }
+          );
+        }
+        throw error;
       }
     }
 
@@ -73,20 +217,35 @@ export class KVStore extends DurableObject<Env> {
         );
       }
 
-      // Fetch from KV
-      const value = await this.env.KV_CACHE.get(key);
+      // ?format=binary streams the value back as it was stored
+      if (url.searchParams.get("format") === "binary") {
+        const { value, metadata, source } = await this.getStream(key);
+        if (value === null) {
+          return Response.json(
+            { error: `Key "${key}" not found` },
+            { status: 404 }
+          );
+        }
 
-      // Track the read in DO storage
-      const readCount =
-        (await this.ctx.storage.get<number>("read_count")) || 0;
-      await this.ctx.storage.put("read_count", readCount + 1);
-      await this.ctx.storage.put("last_key_read", key);
+        const headers = new Headers({
+          "Content-Type": "application/octet-stream",
+          [SOURCE_HEADER]: source,
+        });
+        if (metadata !== null) {
+          headers.set(METADATA_HEADER, asciiJson(metadata));
+        }
+        return new Response(value, { headers });
+      }
+
+      const { value, metadata, source, readCount } = await this.get(key);
 
       return Response.json({
         key,
         value,
         found: value !== null,
-        read_count: readCount + 1,
+        metadata,
+        source,
+        read_count: readCount,
       });
     }
 
@@ -101,8 +260,7 @@ export class KVStore extends DurableObject<Env> {
         );
       }
 
-      // Delete from KV
-      await this.env.KV_CACHE.delete(key);
+      await this.delete(key);
 
       return Response.json({
         success: true,
@@ -112,23 +270,20 @@ export class KVStore extends DurableObject<Env> {
 
     // GET /stats - Get statistics about KV operations
     if (url.pathname === "/stats" && request.method === "GET") {
-      const writeCount =
-        (await this.ctx.storage.get<number>("write_count")) || 0;
-      const readCount =
-        (await this.ctx.storage.get<number>("read_count")) || 0;
-      const lastKeyWritten =
-        (await this.ctx.storage.get<string>("last_key_written")) || null;
-      const lastKeyRead =
-        (await this.ctx.storage.get<string>("last_key_read")) || null;
+      const stats = await this.getStats();
+      const { mode } = await this.getConfig();
 
       return Response.json({
         statistics: {
-          total_writes: writeCount,
-          total_reads: readCount,
-          last_key_written: lastKeyWritten,
-          last_key_read: lastKeyRead,
+          total_writes: stats.totalWrites,
+          total_reads: stats.totalReads,
+          last_key_written: stats.lastKeyWritten,
+          last_key_read: stats.lastKeyRead,
         },
-        note: "Statistics are tracked in Durable Object storage, while actual data is in KV",
+        note:
+          mode === "cache"
+            ? "Statistics and data are kept in Durable Object storage, with KV as a cache"
+            : "Statistics are tracked in Durable Object storage, while actual data is in KV",
       });
     }
 
@@ -136,32 +291,460 @@ export class KVStore extends DurableObject<Env> {
     if (url.pathname === "/list" && request.method === "GET") {
       const prefix = url.searchParams.get("prefix") || "";
       const limit = parseInt(url.searchParams.get("limit") || "10", 10);
+      const cursor = url.searchParams.get("cursor") || undefined;
 
-      const list = await this.env.KV_CACHE.list({ prefix, limit });
+      const list = await this.list(prefix, limit, cursor);
 
       return Response.json({
-        keys: list.keys.map((k) => k.name),
-        list_complete: list.list_complete,
+        keys: list.keys,
+        list_complete: list.listComplete,
         cursor: list.cursor,
         count: list.keys.length,
       });
     }
 
+    // GET /config - Where values are stored and how they're cached
+    if (url.pathname === "/config" && request.method === "GET") {
+      return Response.json({ config: await this.getConfig() });
+    }
+
+    // PUT /config - Change the mode or caching; omitted fields are unchanged
+    if (url.pathname === "/config" && request.method === "PUT") {
+      try {
+        const changes = await request.json<Partial<KVStoreConfig>>();
+        const config = await this.updateConfig(changes);
+        return Response.json({ success: true, config });
+      } catch (error) {
+        if (error instanceof RangeError || error instanceof SyntaxError) {
+          return Response.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
     return Response.json(
       {
         error: "Not found",
         available_endpoints: {
-          put: "PUT /kv with JSON body {key: string, value: string}",
-          get: "GET /kv?key=<key>",
+          put: "PUT /kv with JSON body {key: string, value: string, expiration?, expirationTtl?, metadata?}, or PUT /kv?key=<key>&expirationTtl=<seconds> with an application/octet-stream body",
+          get: "GET /kv?key=<key>[&format=binary]",
           delete: "DELETE /kv?key=<key>",
           stats: "GET /stats",
-          list: "GET /list?prefix=<prefix>&limit=<limit>",
+          list: "GET /list?prefix=<prefix>&limit=<limit>&cursor=<cursor>",
+          config:
+            "GET /config, or PUT /config with JSON body {mode?, cacheTtl?, onWrite?}",
         },
       },
       { status: 404 }
     );
   }
+
+  /**
+   * Writes a value and returns the number of writes made through this
+   * object. In cache mode the value is stored here before KV is touched.
+   * Throws a RangeError for invalid options.
+   */
+  async put(
+    key: string,
+    value: string | ArrayBuffer | ReadableStream,
+    options: KVWriteOptions = {}
+  ): Promise<number> {
+    checkWriteOptions(options);
+    const config = await this.getConfig();
+    if (config.mode === "cache") {
+      const entry: StoredEntry = {
+        value: await toStoredValue(value),
+        metadata: options.metadata ?? null,
+        expiration: expiresAt(options),
+        version: crypto.randomUUID(),
+      };
+      await this.ctx.storage.put(VALUE_PREFIX + key, entry);
+      await this.syncCache(key, entry, config);
+    } else {
+      await this.env.KV_CACHE.put(key, value, options);
+    }
+
+    // Also track the write in DO storage for metadata
+    const writeCount = (await this.ctx.storage.get<number>("write_count")) || 0;
+    await this.ctx.storage.put("write_count", writeCount + 1);
+    await this.ctx.storage.put("last_key_written", key);
+    return writeCount + 1;
+  }
+
+  async get(key: string): Promise<KVReadResult> {
+    const config = await this.getConfig();
+    const cached = await this.env.KV_CACHE.getWithMetadata(
+      config.mode === "cache" ? this.cacheKey(key) : key,
+      { type: "text", cacheTtl: config.cacheTtl }
+    );
+    let value = cached.value;
+    let metadata = cached.metadata;
+    let source: KVReadResult["source"] = "kv";
+
+    if (value === null && config.mode === "cache") {
+      const entry = await this.loadEntry(key);
+      value = entry === null ? null : toText(entry.value);
+      metadata = entry?.metadata ?? null;
+      source = "storage";
+    }
+
+    const readCount = await this.countRead(key);
+    return { value, metadata, source, readCount };
+  }
+
+  /**
+   * Like `get`, but returns the value as a stream of its bytes, for
+   * binary values.
+   */
+  async getStream(key: string): Promise<KVStreamResult> {
+    const config = await this.getConfig();
+    const cached = await this.env.KV_CACHE.getWithMetadata(
+      config.mode === "cache" ? this.cacheKey(key) : key,
+      { type: "stream", cacheTtl: config.cacheTtl }
+    );
+    let value = cached.value;
+    let metadata = cached.metadata;
+    let source: KVReadResult["source"] = "kv";
+
+    if (value === null && config.mode === "cache") {
+      const entry = await this.loadEntry(key);
+      value = entry === null ? null : new Response(entry.value).body;
+      metadata = entry?.metadata ?? null;
+      source = "storage";
+    }
+
+    const readCount = await this.countRead(key);
+    return { value, metadata, source, readCount };
+  }
+
+  async delete(key: string): Promise<void> {
+    const config = await this.getConfig();
+    if (config.mode === "cache") {
+      await this.ctx.storage.delete(VALUE_PREFIX + key);
+      await this.syncCache(key, null, config);
+    } else {
+      await this.env.KV_CACHE.delete(key);
+    }
+  }
+
+  async getConfig(): Promise<KVStoreConfig> {
+    return (
+      (await this.ctx.storage.get<KVStoreConfig>(CONFIG_KEY)) ?? DEFAULT_CONFIG
+    );
+  }
+
+  /**
+   * Merges `changes` into the config. Switching modes doesn't move values:
+   * those written in the other mode are no longer visible. Throws a
+   * RangeError for invalid settings.
+   */
+  async updateConfig(changes: Partial<KVStoreConfig>): Promise<KVStoreConfig> {
+    const config = { ...(await this.getConfig()), ...changes };
+    checkConfig(config);
+    await this.ctx.storage.put(CONFIG_KEY, config);
+    return config;
+  }
+
+  async getStats(): Promise<KVStoreStats> {
+    return {
+      totalWrites: (await this.ctx.storage.get<number>("write_count")) || 0,
+      totalReads: (await this.ctx.storage.get<number>("read_count")) || 0,
+      lastKeyWritten:
+        (await this.ctx.storage.get<string>("last_key_written")) || null,
+      lastKeyRead:
+        (await this.ctx.storage.get<string>("last_key_read")) || null,
+    };
+  }
+
+  /**
+   * Lists up to `limit` keys starting with `prefix`, with their expiry and
+   * metadata. Pass the returned cursor to get the next page. In cache
+   * mode the keys come from storage, which is never stale.
+   */
+  async list(
+    prefix: string = "",
+    limit: number = 10,
+    cursor?: string
+  ): Promise<KVListResult> {
+    const config = await this.getConfig();
+    if (config.mode === "cache") {
+      // One extra entry tells whether there are more
+      const stored = await this.ctx.storage.list<StoredEntry | string>({
+        prefix: VALUE_PREFIX + prefix,
+        startAfter: cursor === undefined ? undefined : VALUE_PREFIX + cursor,
+        limit: limit + 1,
+      });
+      const page = Array.from(stored).slice(0, limit);
+      const now = Date.now();
+      const keys: KVListEntry[] = [];
+      for (const [storageKey, value] of page) {
+        const entry = toEntry(value);
+        // Expired values are deleted when they're next read
+        if (entry !== null && !isExpired(entry, now)) {
+          keys.push({
+            name: storageKey.slice(VALUE_PREFIX.length),
+            expiration: entry.expiration ?? undefined,
+            metadata: entry.metadata ?? undefined,
+          });
+        }
+      }
+
+      const listComplete = stored.size <= limit;
+      return {
+        keys,
+        listComplete,
+        cursor: listComplete
+          ? undefined
+          : page[page.length - 1][0].slice(VALUE_PREFIX.length),
+      };
+    }
+
+    const list = await this.env.KV_CACHE.list({ prefix, limit, cursor });
+
+    return {
+      keys: list.keys.map((k) => ({
+        name: k.name,
+        expiration: k.expiration,
+        metadata: k.metadata,
+      })),
+      listComplete: list.list_complete,
+      cursor: list.list_complete ? undefined : list.cursor,
+    };
+  }
+
+  /**
+   * The KV key caching `key` in cache mode.
+   */
+  private cacheKey(key: string): string {
+    return `cache/${this.ctx.id}/${key}`;
+  }
+
+  /**
+   * Brings KV in line with a write that storage has already committed. If
+   * KV can't be updated, the entry is dropped so reads fall through to
+   * storage instead of returning the old value.
+   */
+  private async syncCache(
+    key: string,
+    entry: StoredEntry | null,
+    config: KVStoreConfig
+  ) {
+    const cacheKey = this.cacheKey(key);
+    const options = entry === null ? null : cacheOptions(entry);
+    if (entry !== null && options !== null && config.onWrite === "update") {
+      try {
+        await this.env.KV_CACHE.put(cacheKey, entry.value, options);
+        return;
+      } catch (error) {
+        console.error(`Failed to update cached ${key}:`, error);
+      }
+    }
+    await this.env.KV_CACHE.delete(cacheKey);
+  }
+
+  /**
+   * Reads a value from storage after a cache miss and caches it again.
+   * Expired values are deleted instead.
+   */
+  private async loadEntry(key: string): Promise<StoredEntry | null> {
+    const entry = toEntry(
+      await this.ctx.storage.get<StoredEntry | string>(VALUE_PREFIX + key)
+    );
+    if (entry === null) {
+      return null;
+    }
+    if (isExpired(entry, Date.now())) {
+      await this.ctx.storage.delete(VALUE_PREFIX + key);
+      return null;
+    }
+
+    await this.populate(key, entry);
+    return entry;
+  }
+
+  /**
+   * Caches a value read from storage. A write may have updated KV in the
+   * meantime, so the entry is dropped again if storage no longer holds the
+   * version that was cached.
+   */
+  private async populate(key: string, entry: StoredEntry) {
+    const options = cacheOptions(entry);
+    if (options === null) {
+      return;
+    }
+
+    const cacheKey = this.cacheKey(key);
+    await this.env.KV_CACHE.put(cacheKey, entry.value, options);
+    const current = toEntry(
+      await this.ctx.storage.get<StoredEntry | string>(VALUE_PREFIX + key)
+    );
+    if (current?.version !== entry.version) {
+      await this.env.KV_CACHE.delete(cacheKey);
+    }
+  }
+
+  /**
+   * Tracks a read in DO storage and returns the number of reads.
+   */
+  private async countRead(key: string): Promise<number> {
+    const readCount = (await this.ctx.storage.get<number>("read_count")) || 0;
+    await this.ctx.storage.put("read_count", readCount + 1);
+    await this.ctx.storage.put("last_key_read", key);
+    return readCount + 1;
+  }
 }
 
+function checkConfig(config: KVStoreConfig) {
+  if (config.mode !== "kv" && config.mode !== "cache") {
+    throw new RangeError('mode must be "kv" or "cache"');
+  }
+  if (
+    !Number.isInteger(config.cacheTtl) ||
+    config.cacheTtl < MIN_CACHE_TTL_SECONDS
+  ) {
+    throw new RangeError(
+      `cacheTtl must be an integer of at least ${MIN_CACHE_TTL_SECONDS} seconds`
+    );
+  }
+  if (config.onWrite !== "update" && config.onWrite !== "invalidate") {
+    throw new RangeError('onWrite must be "update" or "invalidate"');
+  }
+}
 
+function checkWriteOptions(options: KVWriteOptions) {
+  const { expiration, expirationTtl, metadata } = options;
+  if (expiration !== undefined && expirationTtl !== undefined) {
+    throw new RangeError("Pass expiration or expirationTtl, not both");
+  }
+  if (
+    expirationTtl !== undefined &&
+    (!Number.isInteger(expirationTtl) ||
+      expirationTtl < MIN_EXPIRATION_TTL_SECONDS)
+  ) {
+    throw new RangeError(
+      `expirationTtl must be an integer of at least ${MIN_EXPIRATION_TTL_SECONDS} seconds`
+    );
+  }
+  if (
+    expiration !== undefined &&
+    (!Number.isInteger(expiration) ||
+      expiration < Date.now() / 1000 + MIN_EXPIRATION_TTL_SECONDS)
+  ) {
+    throw new RangeError(
+      `expiration must be seconds since the epoch, at least ${MIN_EXPIRATION_TTL_SECONDS} seconds from now`
+    );
+  }
+  if (metadata !== undefined) {
+    const json = JSON.stringify(metadata);
+    if (
+      json === undefined ||
+      new TextEncoder().encode(json).byteLength > MAX_METADATA_BYTES
+    ) {
+      throw new RangeError(
+        `metadata must be JSON of at most ${MAX_METADATA_BYTES} bytes`
+      );
+    }
+  }
+}
+
+/**
+ * When a value written with `options` expires, in seconds since the epoch.
+ */
+function expiresAt(options: KVWriteOptions): number | null {
+  if (options.expirationTtl !== undefined) {
+    return Math.floor(Date.now() / 1000) + options.expirationTtl;
+  }
+  return options.expiration ?? null;
+}
+
+function isExpired(entry: StoredEntry, now: number): boolean {
+  return entry.expiration !== null && entry.expiration * 1000 <= now;
+}
+
+/**
+ * Options for caching `entry` in KV, or null if it expires too soon for
+ * KV to hold it.
+ */
+function cacheOptions(entry: StoredEntry): KVNamespacePutOptions | null {
+  if (entry.expiration === null) {
+    return { metadata: entry.metadata };
+  }
+  if (entry.expiration < Date.now() / 1000 + MIN_EXPIRATION_TTL_SECONDS) {
+    return null;
+  }
+  return { metadata: entry.metadata, expiration: entry.expiration };
+}
+
+/**
+ * Values written before entries carried metadata were stored as plain
+ * strings.
+ */
+function toEntry(stored: StoredEntry | string | undefined): StoredEntry | null {
+  if (stored === undefined) {
+    return null;
+  }
+  return typeof stored === "string"
+    ? { value: stored, metadata: null, expiration: null, version: null }
+    : stored;
+}
+
+function toText(value: string | ArrayBuffer): string {
+  return typeof value === "string" ? value : new TextDecoder().decode(value);
+}
+
+/**
+ * Checks a value's size for storage, buffering binary values first since
+ * storage can't hold a stream. Text is measured the way storage serializes
+ * it: one byte per character when it is all Latin-1, otherwise two.
+ */
+async function toStoredValue(
+  value: string | ArrayBuffer | ReadableStream
+): Promise<string | ArrayBuffer> {
+  const stored =
+    typeof value === "string" || value instanceof ArrayBuffer
+      ? value
+      : await new Response(value).arrayBuffer();
+  const bytes =
+    typeof stored === "string"
+      ? /^[\u0000-\u00ff]*$/.test(stored)
+        ? stored.length
+        : stored.length * 2
+      : stored.byteLength;
+  if (bytes > MAX_STORED_VALUE_BYTES) {
+    throw new ValueTooLargeError(
+      `Values in cache mode are limited to ${MAX_STORED_VALUE_BYTES} bytes as stored (text outside Latin-1 takes two bytes per character)`
+    );
+  }
+  return stored;
+}
+
+function isBinary(request: Request): boolean {
+  const type = request.headers.get("Content-Type") ?? "";
+  return type.split(";")[0].trim() === "application/octet-stream";
+}
+
+function numberParam(url: URL, name: string): number | undefined {
+  const value = url.searchParams.get(name);
+  return value === null ? undefined : Number(value);
+}
+
+function parseMetadata(header: string | null): unknown {
+  if (header === null) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(header);
+  } catch {
+    throw new RangeError(`${METADATA_HEADER} must be JSON`);
+  }
+}
 
+/**
+ * JSON with non-ASCII characters escaped, so it fits in a header.
+ */
+function asciiJson(value: unknown): string {
+  return JSON.stringify(value).replace(
+    /[\u007f-\uffff]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`
+  );
+}
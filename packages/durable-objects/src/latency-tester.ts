@@ -9,12 +9,27 @@
 
 import { DurableObject } from "cloudflare:workers";
 
+export interface LatencyMeasurement {
+  // Key/value pairs from /cdn-cgi/trace, e.g. colo and loc
+  trace: Record<string, string>;
+  processingTime: number;
+  timestamp: string;
+}
+
 export class LatencyTester extends DurableObject<Record<string, never>> {
   constructor(ctx: DurableObjectState, env: Record<string, never>) {
     super(ctx, env);
   }
 
   async fetch(request: Request): Promise<Response> {
+    return Response.json(await this.measure());
+  }
+
+  /**
+   * Fetches the Cloudflare trace from wherever this object is running and
+   * reports how long that took.
+   */
+  async measure(): Promise<LatencyMeasurement> {
     const startTime = Date.now();
 
     // Fetch Cloudflare trace to get the actual location of this DO
@@ -32,12 +47,10 @@ export class LatencyTester extends DurableObject<Record<string, never>> {
       }
     });
 
-    // Add processing time to the response
-    return Response.json({
+    return {
       trace: traceObj,
       processingTime,
       timestamp: new Date().toISOString(),
-    });
+    };
   }
 }
-
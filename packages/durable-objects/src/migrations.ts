@@ -0,0 +1,57 @@
+/**
+ * Versioned SQLite schemas
+ *
+ * Objects that keep data in SQLite list their schema changes as migrations
+ * and run them from `blockConcurrencyWhile` in their constructor, so the
+ * schema is up to date before any request is handled. The highest applied
+ * version is recorded in the object's `schema_migrations` table.
+ */
+
+/**
+ * A schema change, applied once per object on startup. Versions must be
+ * increasing; never edit a migration that has shipped, add a new one.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up(storage: DurableObjectStorage): void | Promise<void>;
+}
+
+/**
+ * Applies the migrations newer than the recorded version, in order.
+ * `objectName` is only used for logging.
+ */
+export async function migrate(
+  storage: DurableObjectStorage,
+  migrations: Migration[],
+  objectName: string
+): Promise<void> {
+  storage.sql.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const { version } = storage.sql
+    .exec<{ version: number }>(
+      "SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations"
+    )
+    .one();
+
+  for (const migration of migrations) {
+    if (migration.version <= version) {
+      continue;
+    }
+
+    console.log(
+      `Applying ${objectName} migration ${migration.version}: ${migration.description}`
+    );
+    await migration.up(storage);
+    storage.sql.exec(
+      "INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)",
+      migration.version,
+      Date.now()
+    );
+  }
+}
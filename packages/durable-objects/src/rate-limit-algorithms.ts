@@ -0,0 +1,272 @@
+/**
+ * Rate limiting algorithms
+ *
+ * Each algorithm is a pure function from (stored state, policy, cost, now)
+ * to a new state and a `RateLimitResult`, so RateLimiter can persist the
+ * state however it likes and report every algorithm the same way.
+ *
+ * - token-bucket: bursts up to `capacity`, refilled at `refillPerSecond`
+ * - fixed-window: `limit` per window aligned to the epoch, so a 86400 second
+ *   window is a UTC calendar day
+ * - sliding-window-log: exactly `limit` in any rolling window; stores one
+ *   entry per request, so it suits small limits
+ * - sliding-window-counter: approximates the rolling window by weighting the
+ *   previous fixed window's count; constant storage
+ */
+
+import {
+  takeTokens,
+  type TokenBucketOptions,
+  type TokenBucketState,
+} from "./token-bucket";
+
+export type RateLimitAlgorithm =
+  | "token-bucket"
+  | "fixed-window"
+  | "sliding-window-log"
+  | "sliding-window-counter";
+
+export type RateLimitPolicy =
+  | ({ algorithm: "token-bucket" } & TokenBucketOptions)
+  | {
+      algorithm: Exclude<RateLimitAlgorithm, "token-bucket">;
+      limit: number;
+      windowSeconds: number;
+    };
+
+/**
+ * The outcome of one rate limit check, whatever the algorithm.
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  // Bucket capacity or requests per window
+  limit: number;
+  // Quota left after this request
+  remaining: number;
+  // Milliseconds until the full quota is available again
+  resetMs: number;
+  // Milliseconds until a request of the same cost can succeed (0 when allowed)
+  retryAfterMs: number;
+}
+
+interface FixedWindowState {
+  windowStart: number;
+  count: number;
+}
+
+interface SlidingLogState {
+  // [timestamp, cost], oldest first
+  entries: [number, number][];
+}
+
+interface SlidingCounterState {
+  windowStart: number;
+  count: number;
+  previousCount: number;
+}
+
+export type RateLimitState =
+  TokenBucketState | FixedWindowState | SlidingLogState | SlidingCounterState;
+
+export interface RateLimitOutcome {
+  state: RateLimitState;
+  result: RateLimitResult;
+}
+
+/**
+ * The largest cost a single request can have under `policy`.
+ */
+export function maxCost(policy: RateLimitPolicy): number {
+  return policy.algorithm === "token-bucket" ? policy.capacity : policy.limit;
+}
+
+/**
+ * Applies a request of `cost` to `state` (undefined for a fresh limiter).
+ * The returned state must be stored whether or not the request was allowed.
+ */
+export function applyRateLimit(
+  state: RateLimitState | undefined,
+  policy: RateLimitPolicy,
+  cost: number,
+  now: number = Date.now()
+): RateLimitOutcome {
+  switch (policy.algorithm) {
+    case "token-bucket":
+      return tokenBucket(
+        state as TokenBucketState | undefined,
+        policy,
+        cost,
+        now
+      );
+    case "fixed-window":
+      return fixedWindow(
+        state as FixedWindowState | undefined,
+        policy.limit,
+        policy.windowSeconds * 1000,
+        cost,
+        now
+      );
+    case "sliding-window-log":
+      return slidingLog(
+        state as SlidingLogState | undefined,
+        policy.limit,
+        policy.windowSeconds * 1000,
+        cost,
+        now
+      );
+    case "sliding-window-counter":
+      return slidingCounter(
+        state as SlidingCounterState | undefined,
+        policy.limit,
+        policy.windowSeconds * 1000,
+        cost,
+        now
+      );
+  }
+}
+
+function tokenBucket(
+  state: TokenBucketState | undefined,
+  options: TokenBucketOptions,
+  cost: number,
+  now: number
+): RateLimitOutcome {
+  const taken = takeTokens(state, options, cost, now);
+  const missing = Math.max(0, options.capacity - taken.state.tokens);
+
+  return {
+    state: taken.state,
+    result: {
+      allowed: taken.allowed,
+      limit: options.capacity,
+      remaining: Math.floor(taken.state.tokens),
+      resetMs: Math.ceil((missing / options.refillPerSecond) * 1000),
+      retryAfterMs: taken.retryAfterMs,
+    },
+  };
+}
+
+function fixedWindow(
+  state: FixedWindowState | undefined,
+  limit: number,
+  windowMs: number,
+  cost: number,
+  now: number
+): RateLimitOutcome {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const count = state?.windowStart === windowStart ? state.count : 0;
+  const allowed = count + cost <= limit;
+  const newCount = allowed ? count + cost : count;
+  const untilNextWindow = windowStart + windowMs - now;
+
+  return {
+    state: { windowStart, count: newCount },
+    result: {
+      allowed,
+      limit,
+      remaining: limit - newCount,
+      resetMs: newCount === 0 ? 0 : untilNextWindow,
+      retryAfterMs: allowed ? 0 : untilNextWindow,
+    },
+  };
+}
+
+function slidingLog(
+  state: SlidingLogState | undefined,
+  limit: number,
+  windowMs: number,
+  cost: number,
+  now: number
+): RateLimitOutcome {
+  // Entries stop counting once they are a full window old
+  const entries = (state?.entries ?? []).filter(([at]) => at + windowMs > now);
+  const used = entries.reduce((sum, [, entryCost]) => sum + entryCost, 0);
+  const allowed = used + cost <= limit;
+
+  let retryAfterMs = 0;
+  if (allowed) {
+    entries.push([now, cost]);
+  } else {
+    // Wait until enough of the oldest entries have expired
+    let freed = 0;
+    for (const [at, entryCost] of entries) {
+      freed += entryCost;
+      if (used - freed + cost <= limit) {
+        retryAfterMs = at + windowMs - now;
+        break;
+      }
+    }
+  }
+
+  const last = entries[entries.length - 1];
+  return {
+    state: { entries },
+    result: {
+      allowed,
+      limit,
+      remaining: limit - (allowed ? used + cost : used),
+      resetMs: last ? last[0] + windowMs - now : 0,
+      retryAfterMs,
+    },
+  };
+}
+
+function slidingCounter(
+  state: SlidingCounterState | undefined,
+  limit: number,
+  windowMs: number,
+  cost: number,
+  now: number
+): RateLimitOutcome {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let count = 0;
+  let previousCount = 0;
+  if (state?.windowStart === windowStart) {
+    count = state.count;
+    previousCount = state.previousCount;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previousCount = state.count;
+  }
+
+  // The previous window counts in proportion to how much of it still
+  // overlaps the rolling window ending now
+  const estimate = (weight: number, current: number) =>
+    previousCount * weight + current;
+  const weight = 1 - (now - windowStart) / windowMs;
+  const allowed = estimate(weight, count) + cost <= limit;
+  if (allowed) {
+    count += cost;
+  }
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    if (count + cost <= limit) {
+      // Later in this window, once the previous window has decayed enough
+      const target = 1 - (limit - count - cost) / previousCount;
+      retryAfterMs = windowStart + target * windowMs - now;
+    } else {
+      // In the next window, once this window's count has decayed enough
+      const target = count > 0 ? Math.max(0, 1 - (limit - cost) / count) : 0;
+      retryAfterMs = windowStart + windowMs + target * windowMs - now;
+    }
+  }
+
+  const resetMs =
+    count > 0
+      ? windowStart + 2 * windowMs - now
+      : previousCount > 0
+        ? windowStart + windowMs - now
+        : 0;
+
+  return {
+    state: { windowStart, count, previousCount },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - estimate(weight, count))),
+      resetMs,
+      retryAfterMs: Math.ceil(retryAfterMs),
+    },
+  };
+}
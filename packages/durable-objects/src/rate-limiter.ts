@@ -1,45 +1,128 @@
+/**
+ * RateLimiter Durable Object
+ *
+ * A rate limiter with one instance per client. Each instance can hold
+ * several named limiters, each with its own state persisted in storage, so
+ * evicting the object doesn't reset anyone's quota. Limiters are configured
+ * with the `RATE_LIMITS` variable and can use any of the algorithms in
+ * rate-limit-algorithms.ts:
+ *
+ *   [vars.RATE_LIMITS.default]
+ *   capacity = 100
+ *   refillPerSecond = 10
+ *
+ *   [vars.RATE_LIMITS.hourly]
+ *   algorithm = "sliding-window-log"
+ *   limit = 50
+ *   windowSeconds = 3600
+ *
+ * A request may cost more than one unit of quota (e.g. an expensive search).
+ */
+
 import { DurableObject } from "cloudflare:workers";
+import {
+  applyRateLimit,
+  maxCost,
+  type RateLimitAlgorithm,
+  type RateLimitPolicy,
+  type RateLimitResult,
+  type RateLimitState,
+} from "./rate-limit-algorithms";
+import type { TokenBucketOptions } from "./token-bucket";
+
+/**
+ * One entry of RATE_LIMITS. `algorithm` defaults to "token-bucket", which
+ * reads `capacity` and `refillPerSecond`; the window algorithms read
+ * `limit` and `windowSeconds`.
+ */
+export interface RateLimitConfig {
+  algorithm?: RateLimitAlgorithm;
+  capacity?: number;
+  refillPerSecond?: number;
+  limit?: number;
+  windowSeconds?: number;
+}
 
-export interface Env {}
+export interface Env {
+  RATE_LIMITS?: Record<string, RateLimitConfig>;
+}
 
-// Durable Object
-export class RateLimiter extends DurableObject {
-  static readonly milliseconds_per_request = 10;
-  static readonly milliseconds_for_updates = 1000;
-  static readonly capacity = 100;
+const TOKEN_BUCKET_DEFAULTS: TokenBucketOptions = {
+  capacity: 100,
+  refillPerSecond: 10,
+};
 
-  tokens: number;
+/**
+ * Used when RATE_LIMITS doesn't configure a "default" limiter.
+ */
+export const DEFAULT_RATE_LIMIT: RateLimitPolicy = {
+  algorithm: "token-bucket",
+  ...TOKEN_BUCKET_DEFAULTS,
+};
+
+const ALGORITHMS: RateLimitAlgorithm[] = [
+  "token-bucket",
+  "fixed-window",
+  "sliding-window-log",
+  "sliding-window-counter",
+];
+
+/**
+ * What is persisted for each limiter.
+ */
+interface StoredLimit {
+  algorithm: RateLimitAlgorithm;
+  state: RateLimitState;
+  // When the full quota is available again, so the entry can be dropped
+  idleAt: number;
+}
 
+export class RateLimiter extends DurableObject<Env> {
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
-    this.tokens = RateLimiter.capacity;
   }
 
   async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const limiter = url.searchParams.get("limiter") || "default";
+    const costParam = url.searchParams.get("cost");
+    const cost = costParam === null ? 1 : Number(costParam);
+
     try {
-      const milliseconds_to_next_request =
-        await this.getMillisecondsToNextRequest();
+      const policy = this.getPolicy(limiter);
+      if (!policy) {
+        return new Response(
+          JSON.stringify({ error: `Unknown limiter: ${limiter}` }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
 
-      if (milliseconds_to_next_request > 0) {
-        const nextRefillTime = await this.ctx.storage.getAlarm();
-        const now = Date.now();
-        const milliseconds_until_refill = nextRefillTime
-          ? Math.max(0, nextRefillTime - now)
-          : null;
+      if (!Number.isInteger(cost) || cost < 1 || cost > maxCost(policy)) {
+        return new Response(
+          JSON.stringify({
+            error: `cost must be an integer between 1 and ${maxCost(policy)}`,
+          }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
 
+      const result = await this.check(limiter, cost);
+      const headers = {
+        "Content-Type": "application/json",
+        ...rateLimitHeaders(result),
+      };
+
+      if (!result.allowed) {
         return new Response(
           JSON.stringify({
             error: "Rate limit exceeded",
-            retry_after_ms: milliseconds_to_next_request,
-            refill_in_ms: milliseconds_until_refill,
-            refill_at: nextRefillTime
-              ? new Date(nextRefillTime).toISOString()
-              : null,
+            limiter,
+            algorithm: policy.algorithm,
+            cost,
+            retry_after_ms: result.retryAfterMs,
+            remaining: result.remaining,
           }),
-          {
-            status: 429,
-            headers: { "Content-Type": "application/json" },
-          }
+          { status: 429, headers }
         );
       }
 
@@ -47,11 +130,12 @@ export class RateLimiter extends DurableObject {
         JSON.stringify({
           success: true,
           message: "Request allowed - upstream resource would be called here",
-          tokens_remaining: this.tokens,
+          limiter,
+          algorithm: policy.algorithm,
+          cost,
+          remaining: result.remaining,
         }),
-        {
-          headers: { "Content-Type": "application/json" },
-        }
+        { headers }
       );
     } catch (error) {
       return new Response(
@@ -67,37 +151,153 @@ export class RateLimiter extends DurableObject {
     }
   }
 
-  async getMillisecondsToNextRequest(): Promise<number> {
-    await this.checkAndSetAlarm();
-
-    let milliseconds_to_next_request = RateLimiter.milliseconds_per_request;
-    if (this.tokens > 0) {
-      this.tokens -= 1;
-      milliseconds_to_next_request = 0;
+  /**
+   * Applies a request of `cost` to the named limiter. Also callable over
+   * RPC, so the worker can rate limit any route without a fetch round trip.
+   */
+  async check(limiter: string, cost: number = 1): Promise<RateLimitResult> {
+    const policy = this.getPolicy(limiter);
+    if (!policy) {
+      throw new Error(`Unknown limiter: ${limiter}`);
+    }
+    if (!Number.isInteger(cost) || cost < 1 || cost > maxCost(policy)) {
+      throw new RangeError(
+        `cost must be an integer between 1 and ${maxCost(policy)}`
+      );
     }
 
-    return milliseconds_to_next_request;
+    const key = `limit:${limiter}`;
+    const now = Date.now();
+    const stored = await this.ctx.storage.get<StoredLimit>(key);
+
+    // State from a different algorithm (after a config change) is discarded
+    const { state, result } = applyRateLimit(
+      stored?.algorithm === policy.algorithm ? stored.state : undefined,
+      policy,
+      cost,
+      now
+    );
+
+    const idleAt = now + result.resetMs;
+    await this.ctx.storage.put<StoredLimit>(key, {
+      algorithm: policy.algorithm,
+      state,
+      idleAt,
+    });
+    await this.scheduleCleanup(idleAt);
+
+    return result;
   }
 
-  private async checkAndSetAlarm() {
-    let currentAlarm = await this.ctx.storage.getAlarm();
+  /**
+   * Milliseconds until a request can proceed, or 0 if this one was allowed
+   * (and counted). The original RPC method, kept for existing callers;
+   * `check` reports the full result.
+   */
+  async getMillisecondsToNextRequest(
+    limiter: string = "default",
+    cost: number = 1
+  ): Promise<number> {
+    const result = await this.check(limiter, cost);
+    return result.retryAfterMs;
+  }
+
+  /**
+   * Drops limiters whose full quota is available again; a missing limiter
+   * starts with its full quota, so this only frees storage.
+   */
+  async alarm(): Promise<void> {
     const now = Date.now();
+    const limits = await this.ctx.storage.list<StoredLimit>({
+      prefix: "limit:",
+    });
+
+    let nextCleanup: number | null = null;
+    for (const [key, stored] of limits) {
+      if (stored.idleAt <= now) {
+        await this.ctx.storage.delete(key);
+      } else {
+        nextCleanup = Math.min(nextCleanup ?? stored.idleAt, stored.idleAt);
+      }
+    }
+
+    if (nextCleanup !== null) {
+      await this.ctx.storage.setAlarm(nextCleanup);
+    }
+  }
+
+  private getPolicy(limiter: string): RateLimitPolicy | null {
+    const config = this.env.RATE_LIMITS?.[limiter];
+    if (!config) {
+      return limiter === "default" ? DEFAULT_RATE_LIMIT : null;
+    }
+    return resolvePolicy(limiter, config);
+  }
+
+  /**
+   * Makes sure a cleanup alarm is pending. The alarm is only set when none
+   * is scheduled, not on every request.
+   */
+  private async scheduleCleanup(idleAt: number): Promise<void> {
+    if ((await this.ctx.storage.getAlarm()) !== null) {
+      return;
+    }
+    await this.ctx.storage.setAlarm(idleAt);
+  }
+}
 
-    // If no alarm exists, or if the current alarm is in the past, set a new one
-    if (currentAlarm == null || currentAlarm <= now) {
-      const alarmTime =
-        now +
-        RateLimiter.milliseconds_for_updates *
-          RateLimiter.milliseconds_per_request;
-      this.ctx.storage.setAlarm(alarmTime);
+/**
+ * Validates a RATE_LIMITS entry. Token bucket settings fall back to the
+ * defaults; window algorithms must set both `limit` and `windowSeconds`.
+ */
+function resolvePolicy(name: string, config: RateLimitConfig): RateLimitPolicy {
+  const algorithm = config.algorithm ?? "token-bucket";
+  if (!ALGORITHMS.includes(algorithm)) {
+    throw new Error(`RATE_LIMITS.${name}: unknown algorithm ${algorithm}`);
+  }
+
+  if (algorithm === "token-bucket") {
+    const capacity = config.capacity ?? TOKEN_BUCKET_DEFAULTS.capacity;
+    const refillPerSecond =
+      config.refillPerSecond ?? TOKEN_BUCKET_DEFAULTS.refillPerSecond;
+    if (!Number.isInteger(capacity) || capacity < 1 || !(refillPerSecond > 0)) {
+      throw new Error(
+        `RATE_LIMITS.${name} needs an integer capacity >= 1 and refillPerSecond > 0`
+      );
     }
+    return { algorithm, capacity, refillPerSecond };
   }
 
-  async alarm() {
-    this.tokens = Math.min(
-      RateLimiter.capacity,
-      this.tokens + RateLimiter.milliseconds_for_updates
+  const { limit, windowSeconds } = config;
+  if (
+    limit === undefined ||
+    !Number.isInteger(limit) ||
+    limit < 1 ||
+    windowSeconds === undefined ||
+    !(windowSeconds > 0)
+  ) {
+    throw new Error(
+      `RATE_LIMITS.${name} needs an integer limit >= 1 and windowSeconds > 0`
     );
-    await this.checkAndSetAlarm();
   }
+  return { algorithm, limit, windowSeconds };
+}
+
+/**
+ * Standard rate limit response headers for a result: `RateLimit-Limit`,
+ * `RateLimit-Remaining`, `RateLimit-Reset` (seconds until the full quota is
+ * available) and, when the request was rejected, `Retry-After` (seconds).
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(Math.ceil(result.resetMs / 1000)),
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(Math.ceil(result.retryAfterMs / 1000));
+  }
+  return headers;
 }
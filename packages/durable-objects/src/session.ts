@@ -1,4 +1,138 @@
 import { DurableObject } from "cloudflare:workers";
+import { getAuthenticatedUser } from "./auth";
+
+// Session values are stored under this prefix, apart from the bookkeeping
+// keys below, so no value can be mistaken for (or overwrite) bookkeeping
+const DATA_PREFIX = "data:";
+
+// Storage key holding the user who owns this session
+const OWNER_KEY = "__owner";
+// The timeouts chosen when the session was created
+const CONFIG_KEY = "__config";
+// When the session was last used
+const LAST_USED_KEY = "__last_used";
+// Deadlines of keys that expire on their own, by key
+const EXPIRY_KEY = "__expiry";
+// Set once values live under DATA_PREFIX
+const LAYOUT_KEY = "__layout";
+const DATA_LAYOUT = 2;
+
+const MAX_KEY_LENGTH = 512;
+// Largest value, measured as JSON
+const MAX_VALUE_BYTES = 64 * 1024;
+// Most keys one write may set and remove; Storage.put takes at most 128
+const MAX_BATCH_KEYS = 128;
+
+// Inactivity timeout for sessions created without one; short for easy testing
+export const DEFAULT_TTL_SECONDS = 30;
+// Upper limit for every timeout
+const MAX_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+interface Env {
+  // This class's own namespace, for moving a session to a new id
+  SESSION?: DurableObjectNamespace<Session>;
+}
+
+/**
+ * A rejected session operation, carrying the HTTP status the adapter
+ * responds with.
+ */
+export class SessionError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+/**
+ * Timeouts for a new session. They are fixed by the write that creates the
+ * session and ignored afterwards.
+ */
+export interface SessionOptions {
+  // Inactivity timeout
+  ttlSeconds?: number;
+  // Time from creation after which the session ends however active it is
+  maxLifetimeSeconds?: number | null;
+}
+
+export interface SessionSetOptions extends SessionOptions {
+  // Deletes the written keys after this long, unless the session ends first
+  expiresInSeconds?: number;
+}
+
+/**
+ * Keys to set and keys to remove, applied together or not at all.
+ */
+export interface SessionUpdate {
+  values?: Record<string, unknown>;
+  remove?: string[];
+}
+
+/**
+ * When the session ends: after `ttl_seconds` without use or at the end of
+ * its lifetime, whichever comes first. `expires_at` and
+ * `remaining_seconds` are null for sessions that don't exist.
+ */
+export interface SessionTtl {
+  ttl_seconds: number;
+  max_lifetime_seconds: number | null;
+  expires_at: string | null;
+  remaining_seconds: number | null;
+  alarm_scheduled_at: string | null;
+}
+
+/**
+ * The session's expiry along with that of its expiring keys.
+ */
+export interface SessionExpiry extends SessionTtl {
+  key_expires_at: Record<string, string>;
+}
+
+export interface SessionValue extends SessionTtl {
+  key: string;
+  value: unknown;
+  exists: boolean;
+  key_expires_at: string | null;
+}
+
+export interface SessionData extends SessionExpiry {
+  data: Record<string, unknown>;
+  count: number;
+}
+
+/**
+ * Everything a session holds, for moving it to another object when its id
+ * is rotated (see `rotate`). The timeouts and creation time move with it,
+ * so rotation can't extend the session's lifetime.
+ */
+export interface SessionSnapshot {
+  config: SessionConfig;
+  lastUsed: number;
+  expiry: Record<string, number>;
+  data: Record<string, unknown>;
+}
+
+export interface SessionConfig {
+  ttlSeconds: number;
+  maxLifetimeSeconds: number | null;
+  createdAt: number;
+}
+
+// Storage or a transaction on it
+type StorageWriter = Pick<DurableObjectTransaction, "put" | "setAlarm">;
+
+/**
+ * The bookkeeping of a session that exists.
+ */
+interface SessionState {
+  owner: string;
+  config: SessionConfig;
+  lastUsed: number;
+  expiry: Record<string, number>;
+}
 
 /**
  * Session Durable Object
@@ -7,117 +141,717 @@ import { DurableObject } from "cloudflare:workers";
  * The session automatically deletes all its data after a period of inactivity.
  *
  * How it works:
- * - Every request resets the TTL alarm (activity extends the session)
- * - The alarm is set in the fetch handler on every request
- * - If no requests come within the TTL, the alarm fires and clears all data
+ * - The write that creates a session chooses its inactivity TTL, and
+ *   optionally an absolute lifetime that activity can't extend
+ * - Every request by the owner counts as activity and extends the session
+ * - Keys can expire on their own before the session does
+ * - A single alarm is kept at the earliest deadline: when it fires it either
+ *   clears the whole session or deletes the keys that are due
  * - This creates "activity-based persistence" - useful for sessions, caches, etc.
+ *
+ * Sessions are scoped to a user: the first authenticated user to write to a
+ * session becomes its owner, and requests from anyone else are rejected.
+ *
+ * Values are any JSON up to 64 KiB, stored under `data:<key>`. `mset`
+ * sets and removes several keys in one transaction.
+ *
+ * `set`, `mset`, `get`, `getAll`, `delete`, `getTtl` and `destroy` can be
+ * called over RPC with the user the caller authenticated; the HTTP routes
+ * are thin adapters over them. `rotate` moves a session to another object,
+ * so its id can change without losing its contents.
  */
-export class Session extends DurableObject<Record<string, never>> {
-  // Time To Live (TTL) in milliseconds - 30 seconds for easy testing
-  private readonly timeToLiveMs = 30 * 1000; // 30 seconds
-
-  constructor(state: DurableObjectState, env: Record<string, never>) {
+export class Session extends DurableObject<Env> {
+  constructor(state: DurableObjectState, env: Env) {
     super(state, env);
+
+    this.ctx.blockConcurrencyWhile(async () => {
+      await this.migrateLayout();
+    });
   }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
 
-    // Extend the TTL immediately following every fetch request.
-    // This resets the "inactivity timer" by setting a new alarm.
-    // Setting the alarm here (in fetch) is the recommended approach.
-    await this.ctx.storage.setAlarm(Date.now() + this.timeToLiveMs);
-
-    // Set session data
-    if (url.pathname === "/session/set" && request.method === "POST") {
-      const data = await request.json<{ key: string; value: string }>();
-      await this.ctx.storage.put(data.key, data.value);
-
-      const currentAlarm = await this.ctx.storage.getAlarm();
+    const user = getAuthenticatedUser(request);
+    if (!user) {
       return new Response(
-        JSON.stringify({
-          success: true,
-          message: `Stored ${data.key}`,
-          ttl_seconds: 30,
-          alarm_scheduled_at: currentAlarm
-            ? new Date(currentAlarm).toISOString()
-            : null,
-        }),
-        { headers: { "Content-Type": "application/json" } }
+        JSON.stringify({ error: "Authentication required" }),
+        { status: 401, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    // Get session data
-    if (url.pathname === "/session/get") {
-      const key = url.searchParams.get("key");
-      if (!key) {
+    try {
+      // Set session data
+      if (url.pathname === "/session/set" && request.method === "POST") {
+        const data = await request.json<
+          { key: string; value: unknown } & SessionSetOptions
+        >();
+        const ttl = await this.set(user, data.key, data.value, {
+          expiresInSeconds: data.expiresInSeconds,
+          ttlSeconds: data.ttlSeconds,
+          maxLifetimeSeconds: data.maxLifetimeSeconds,
+        });
         return new Response(
-          JSON.stringify({ error: "Missing 'key' parameter" }),
-          { status: 400, headers: { "Content-Type": "application/json" } }
+          JSON.stringify({
+            success: true,
+            message: `Stored ${data.key}`,
+            ...ttl,
+          }),
+          { headers: { "Content-Type": "application/json" } }
         );
       }
 
-      const value = await this.ctx.storage.get(key);
-      const currentAlarm = await this.ctx.storage.getAlarm();
+      // Set and remove several keys at once
+      if (url.pathname === "/session/mset" && request.method === "POST") {
+        const data = await request.json<SessionUpdate & SessionSetOptions>();
+        const update = { values: data.values ?? {}, remove: data.remove ?? [] };
+        const ttl = await this.mset(user, update, {
+          expiresInSeconds: data.expiresInSeconds,
+          ttlSeconds: data.ttlSeconds,
+          maxLifetimeSeconds: data.maxLifetimeSeconds,
+        });
+        return new Response(
+          JSON.stringify({
+            success: true,
+            stored: Object.keys(update.values).length,
+            removed: update.remove.length,
+            ...ttl,
+          }),
+          { headers: { "Content-Type": "application/json" } }
+        );
+      }
 
-      return new Response(
-        JSON.stringify({
-          key,
-          value: value || null,
-          exists: value !== undefined,
-          ttl_seconds: 30,
-          alarm_scheduled_at: currentAlarm
-            ? new Date(currentAlarm).toISOString()
-            : null,
-        }),
-        { headers: { "Content-Type": "application/json" } }
-      );
-    }
+      // Delete one key
+      if (url.pathname === "/session/key" && request.method === "DELETE") {
+        const key = url.searchParams.get("key");
+        if (!key) {
+          return new Response(
+            JSON.stringify({ error: "Missing 'key' parameter" }),
+            { status: 400, headers: { "Content-Type": "application/json" } }
+          );
+        }
 
-    // Get all session data
-    if (url.pathname === "/session/all") {
-      const allData = await this.ctx.storage.list();
-      const data: Record<string, unknown> = {};
+        const deleted = await this.delete(user, key);
+        return new Response(JSON.stringify({ success: true, key, deleted }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
 
-      for (const [key, value] of allData) {
-        data[key] = value;
+      // Get session data
+      if (url.pathname === "/session/get") {
+        const key = url.searchParams.get("key");
+        if (!key) {
+          return new Response(
+            JSON.stringify({ error: "Missing 'key' parameter" }),
+            { status: 400, headers: { "Content-Type": "application/json" } }
+          );
+        }
+
+        return new Response(JSON.stringify(await this.get(user, key)), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // Get all session data
+      if (url.pathname === "/session/all") {
+        return new Response(JSON.stringify(await this.getAll(user)), {
+          headers: { "Content-Type": "application/json" },
+        });
       }
 
-      const currentAlarm = await this.ctx.storage.getAlarm();
+      // Time left, without extending the session
+      if (url.pathname === "/session/ttl") {
+        return new Response(JSON.stringify(await this.getTtl(user)), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
 
-      return new Response(
-        JSON.stringify({
-          data,
-          count: allData.size,
-          ttl_seconds: 30,
-          alarm_scheduled_at: currentAlarm
-            ? new Date(currentAlarm).toISOString()
-            : null,
-        }),
-        { headers: { "Content-Type": "application/json" } }
-      );
+      // Move the session to the object named by ?to=
+      if (url.pathname === "/session/rotate" && request.method === "POST") {
+        const to = url.searchParams.get("to");
+        if (!to) {
+          return new Response(
+            JSON.stringify({ error: "Missing 'to' parameter" }),
+            { status: 400, headers: { "Content-Type": "application/json" } }
+          );
+        }
+
+        const ttl = await this.rotate(user, to);
+        if (ttl === null) {
+          return new Response(JSON.stringify({ error: "No session" }), {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        return new Response(JSON.stringify({ success: true, ...ttl }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // End the session now
+      if (url.pathname === "/session/destroy" && request.method === "POST") {
+        const destroyed = await this.destroy(user);
+        return new Response(JSON.stringify({ success: true, destroyed }), {
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    } catch (error) {
+      if (error instanceof SessionError) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: error.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      if (error instanceof SyntaxError) {
+        return new Response(
+          JSON.stringify({ error: "Request body must be JSON" }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      throw error;
     }
 
     return new Response(
       JSON.stringify({
         message: "Session Durable Object",
         endpoints: {
-          set: "POST /session/set with JSON body {key, value}",
+          set: "POST /session/set with JSON body {key, value, expiresInSeconds?, ttlSeconds?, maxLifetimeSeconds?}",
+          mset: "POST /session/mset with JSON body {values, remove?, expiresInSeconds?, ttlSeconds?, maxLifetimeSeconds?}",
           get: "GET /session/get?key=<key>",
           all: "GET /session/all",
+          delete: "DELETE /session/key?key=<key>",
+          ttl: "GET /session/ttl",
+          rotate: "POST /session/rotate?to=<name>",
+          destroy: "POST /session/destroy",
         },
-        info: "Session auto-deletes after 30 seconds of inactivity",
+        info: `Sessions auto-delete after ${DEFAULT_TTL_SECONDS} seconds of inactivity unless created with another ttlSeconds`,
       }),
       { headers: { "Content-Type": "application/json" } }
     );
   }
 
   /**
-   * Alarm handler - called when the TTL expires
-   * This automatically cleans up all session data after inactivity
+   * Stores a JSON value for `user`. The first write creates the session,
+   * claims it for `user` and fixes its timeouts from `options`.
+   */
+  async set(
+    user: string,
+    key: string,
+    value: unknown,
+    options: SessionSetOptions = {}
+  ): Promise<SessionTtl> {
+    // Checked before it becomes a property name, which would turn a
+    // missing key into "undefined"
+    checkKey(key);
+    return this.mset(user, { values: { [key]: value } }, options);
+  }
+
+  /**
+   * Sets and removes several keys in one transaction: either every change
+   * is stored or none is. `expiresInSeconds` applies to every key set.
+   */
+  async mset(
+    user: string,
+    update: SessionUpdate,
+    options: SessionSetOptions = {}
+  ): Promise<SessionTtl> {
+    const values = update.values ?? {};
+    const remove = update.remove ?? [];
+    checkUpdate(values, remove);
+    checkOptions(options);
+
+    const existing = await this.open(user);
+    if (existing === null && Object.keys(values).length === 0) {
+      // Removing keys from a session that doesn't exist changes nothing
+      return this.report(null);
+    }
+
+    const now = Date.now();
+    const state: SessionState = existing ?? {
+      owner: user,
+      config: {
+        ttlSeconds: options.ttlSeconds ?? DEFAULT_TTL_SECONDS,
+        maxLifetimeSeconds: options.maxLifetimeSeconds ?? null,
+        createdAt: now,
+      },
+      lastUsed: now,
+      expiry: {},
+    };
+
+    const entries: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(values)) {
+      entries[DATA_PREFIX + key] = value;
+      if (options.expiresInSeconds !== undefined) {
+        state.expiry[key] = now + options.expiresInSeconds * 1000;
+      } else {
+        delete state.expiry[key];
+      }
+    }
+    for (const key of remove) {
+      delete state.expiry[key];
+    }
+
+    await this.ctx.storage.transaction(async (txn) => {
+      // The first write claims the session for this user
+      if (existing === null) {
+        await txn.put({
+          [OWNER_KEY]: state.owner,
+          [CONFIG_KEY]: state.config,
+          [LAYOUT_KEY]: DATA_LAYOUT,
+        });
+      }
+      if (Object.keys(entries).length > 0) {
+        await txn.put(entries);
+      }
+      if (remove.length > 0) {
+        await txn.delete(remove.map((key) => DATA_PREFIX + key));
+      }
+      await txn.put(EXPIRY_KEY, state.expiry);
+      await this.extend(state, txn);
+    });
+
+    return this.report(state);
+  }
+
+  async get(user: string, key: string): Promise<SessionValue> {
+    const state = await this.open(user);
+    checkKey(key);
+    if (state !== null) {
+      await this.extend(state);
+    }
+
+    // Expired keys stay stored until the alarm gets to them
+    const deadline = state?.expiry[key];
+    const expired = deadline !== undefined && deadline <= Date.now();
+    const value =
+      state === null || expired
+        ? undefined
+        : await this.ctx.storage.get(DATA_PREFIX + key);
+    return {
+      key,
+      value: value ?? null,
+      exists: value !== undefined,
+      key_expires_at:
+        value !== undefined && deadline !== undefined
+          ? new Date(deadline).toISOString()
+          : null,
+      ...(await this.report(state)),
+    };
+  }
+
+  async getAll(user: string): Promise<SessionData> {
+    const state = await this.open(user);
+    if (state !== null) {
+      await this.extend(state);
+    }
+
+    const data = state === null ? {} : await this.readData(state);
+    return {
+      data,
+      count: Object.keys(data).length,
+      ...(await this.report(state)),
+      key_expires_at: keyExpiry(state),
+    };
+  }
+
+  /**
+   * Deletes one key. Returns false if it didn't exist.
+   */
+  async delete(user: string, key: string): Promise<boolean> {
+    const state = await this.open(user);
+    checkKey(key);
+    if (state === null) {
+      return false;
+    }
+
+    const deadline = state.expiry[key];
+    const expired = deadline !== undefined && deadline <= Date.now();
+    delete state.expiry[key];
+
+    let existed = false;
+    await this.ctx.storage.transaction(async (txn) => {
+      existed = (await txn.delete(DATA_PREFIX + key)) && !expired;
+      await txn.put(EXPIRY_KEY, state.expiry);
+      await this.extend(state, txn);
+    });
+    return existed;
+  }
+
+  /**
+   * Reports when the session and its keys expire. Unlike the other
+   * methods, this doesn't count as activity.
+   */
+  async getTtl(user: string): Promise<SessionExpiry> {
+    const state = await this.open(user);
+    return {
+      ...(await this.report(state)),
+      key_expires_at: keyExpiry(state),
+    };
+  }
+
+  /**
+   * Deletes the session and everything in it. Returns false if there was
+   * no session.
+   */
+  async destroy(user: string): Promise<boolean> {
+    const state = await this.open(user);
+    if (state === null) {
+      return false;
+    }
+
+    await this.clear();
+    return true;
+  }
+
+  /**
+   * Moves the session to the object named `name`, then clears this one.
+   * Returns the moved session's TTL, or null if there was no session.
+   */
+  async rotate(user: string, name: string): Promise<SessionTtl | null> {
+    const state = await this.open(user);
+    if (state === null) {
+      return null;
+    }
+
+    const namespace = this.env.SESSION;
+    if (!namespace) {
+      throw new Error("Rotating sessions needs the SESSION binding");
+    }
+    const ttl = await namespace
+      .get(namespace.idFromName(name))
+      .restore(user, await this.snapshot(state));
+    await this.clear();
+    return ttl;
+  }
+
+  /**
+   * Recreates a session moved by `rotate` for `user`. Rejected with 409 if
+   * this object already holds a session.
+   */
+  async restore(user: string, snapshot: SessionSnapshot): Promise<SessionTtl> {
+    if ((await this.load()) !== null) {
+      throw new SessionError(409, "This session already exists");
+    }
+
+    const expiry: Record<string, number> = {};
+    const entries: [string, unknown][] = [];
+    for (const [key, value] of Object.entries(snapshot.data)) {
+      checkKey(key);
+      entries.push([DATA_PREFIX + key, value]);
+      if (snapshot.expiry[key] !== undefined) {
+        expiry[key] = snapshot.expiry[key];
+      }
+    }
+    const state: SessionState = {
+      owner: user,
+      config: snapshot.config,
+      lastUsed: snapshot.lastUsed,
+      expiry,
+    };
+    await this.ctx.storage.put({
+      [OWNER_KEY]: state.owner,
+      [CONFIG_KEY]: state.config,
+      [EXPIRY_KEY]: state.expiry,
+      [LAYOUT_KEY]: DATA_LAYOUT,
+    });
+    // Storage.put accepts at most 128 entries per call
+    for (let i = 0; i < entries.length; i += 128) {
+      await this.ctx.storage.put(Object.fromEntries(entries.slice(i, i + 128)));
+    }
+
+    // Moving the session counts as using it
+    await this.extend(state);
+    return this.report(state);
+  }
+
+  /**
+   * Alarm handler - called at the earliest deadline. Clears the whole
+   * session once it has expired, otherwise deletes the keys that are due.
    */
   async alarm(): Promise<void> {
-    console.log("Session TTL expired - cleaning up all data");
+    const state = await this.load();
+    if (state === null) {
+      return;
+    }
+
+    const now = Date.now();
+    const due = Object.keys(state.expiry).filter(
+      (key) => state.expiry[key] <= now
+    );
+    if (due.length > 0) {
+      console.log(`Session keys expired: ${due.join(", ")}`);
+      // Storage.delete accepts at most 128 keys per call
+      const keys = due.map((key) => DATA_PREFIX + key);
+      for (let i = 0; i < keys.length; i += 128) {
+        await this.ctx.storage.delete(keys.slice(i, i + 128));
+      }
+      for (const key of due) {
+        delete state.expiry[key];
+      }
+      await this.ctx.storage.put(EXPIRY_KEY, state.expiry);
+    }
+
+    await this.schedule(state);
+  }
+
+  /**
+   * Loads the session for `user`, rejecting anyone but the owner. Returns
+   * null if the session doesn't exist (or has just expired).
+   */
+  private async open(user: string): Promise<SessionState | null> {
+    const state = await this.load();
+    if (state !== null && state.owner !== user) {
+      throw new SessionError(403, "This session belongs to another user");
+    }
+    return state;
+  }
+
+  /**
+   * Loads the session's bookkeeping, clearing the session first if it
+   * expired and the alarm hasn't run yet.
+   */
+  private async load(): Promise<SessionState | null> {
+    const stored = await this.ctx.storage.get<unknown>([
+      OWNER_KEY,
+      CONFIG_KEY,
+      LAST_USED_KEY,
+      EXPIRY_KEY,
+    ]);
+    const owner = stored.get(OWNER_KEY) as string | undefined;
+    if (owner === undefined) {
+      return null;
+    }
+
+    // Sessions from before configurable timeouts have only an owner
+    const now = Date.now();
+    const state: SessionState = {
+      owner,
+      config: (stored.get(CONFIG_KEY) as SessionConfig | undefined) ?? {
+        ttlSeconds: DEFAULT_TTL_SECONDS,
+        maxLifetimeSeconds: null,
+        createdAt: now,
+      },
+      lastUsed: (stored.get(LAST_USED_KEY) as number | undefined) ?? now,
+      expiry: (stored.get(EXPIRY_KEY) as Record<string, number>) ?? {},
+    };
+
+    if (sessionDeadline(state) <= now) {
+      console.log("Session TTL expired - cleaning up all data");
+      await this.clear();
+      return null;
+    }
+    return state;
+  }
+
+  /**
+   * Copies the session's contents for `restore` on another object.
+   */
+  private async snapshot(state: SessionState): Promise<SessionSnapshot> {
+    return {
+      config: state.config,
+      lastUsed: state.lastUsed,
+      expiry: state.expiry,
+      data: await this.readData(state),
+    };
+  }
+
+  /**
+   * Every value that hasn't expired, by key.
+   */
+  private async readData(
+    state: SessionState
+  ): Promise<Record<string, unknown>> {
+    const now = Date.now();
+    const data: Record<string, unknown> = {};
+    const stored = await this.ctx.storage.list({ prefix: DATA_PREFIX });
+    for (const [storageKey, value] of stored) {
+      const key = storageKey.slice(DATA_PREFIX.length);
+      const deadline = state.expiry[key];
+      if (deadline === undefined || deadline > now) {
+        data[key] = value;
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Sessions used to store values next to the bookkeeping keys; moves
+   * them under DATA_PREFIX.
+   */
+  private async migrateLayout() {
+    const stored = await this.ctx.storage.get([OWNER_KEY, LAYOUT_KEY]);
+    if (!stored.has(OWNER_KEY) || stored.has(LAYOUT_KEY)) {
+      return;
+    }
+
+    const values = Array.from(await this.ctx.storage.list()).filter(
+      ([key]) => !key.startsWith("__")
+    );
+    // Storage.put and Storage.delete accept at most 128 keys per call
+    for (let i = 0; i < values.length; i += 128) {
+      const chunk = values.slice(i, i + 128);
+      await this.ctx.storage.put(
+        Object.fromEntries(
+          chunk.map(([key, value]) => [DATA_PREFIX + key, value])
+        )
+      );
+      await this.ctx.storage.delete(chunk.map(([key]) => key));
+    }
+    await this.ctx.storage.put(LAYOUT_KEY, DATA_LAYOUT);
+  }
+
+  private async clear() {
     await this.ctx.storage.deleteAll();
+    await this.ctx.storage.deleteAlarm();
+  }
+
+  /**
+   * Records activity, pushing back the inactivity deadline. Pass a
+   * transaction to make it part of a larger write.
+   */
+  private async extend(
+    state: SessionState,
+    storage: StorageWriter = this.ctx.storage
+  ) {
+    state.lastUsed = Date.now();
+    await storage.put(LAST_USED_KEY, state.lastUsed);
+    await this.schedule(state, storage);
+  }
+
+  /**
+   * Points the alarm at the earliest deadline: the session's or a key's.
+   */
+  private async schedule(
+    state: SessionState,
+    storage: StorageWriter = this.ctx.storage
+  ) {
+    await storage.setAlarm(
+      Math.min(sessionDeadline(state), ...Object.values(state.expiry))
+    );
+  }
+
+  private async report(state: SessionState | null): Promise<SessionTtl> {
+    const currentAlarm = await this.ctx.storage.getAlarm();
+    const deadline = state === null ? null : sessionDeadline(state);
+
+    return {
+      ttl_seconds: state?.config.ttlSeconds ?? DEFAULT_TTL_SECONDS,
+      max_lifetime_seconds: state?.config.maxLifetimeSeconds ?? null,
+      expires_at: deadline === null ? null : new Date(deadline).toISOString(),
+      remaining_seconds:
+        deadline === null
+          ? null
+          : Math.max(0, Math.ceil((deadline - Date.now()) / 1000)),
+      alarm_scheduled_at: currentAlarm
+        ? new Date(currentAlarm).toISOString()
+        : null,
+    };
+  }
+}
+
+/**
+ * When the session ends if it isn't used again.
+ */
+function sessionDeadline(state: SessionState): number {
+  const idle = state.lastUsed + state.config.ttlSeconds * 1000;
+  const { maxLifetimeSeconds, createdAt } = state.config;
+  return maxLifetimeSeconds === null
+    ? idle
+    : Math.min(idle, createdAt + maxLifetimeSeconds * 1000);
+}
+
+/**
+ * Deadlines of the keys that haven't expired yet.
+ */
+function keyExpiry(state: SessionState | null): Record<string, string> {
+  const now = Date.now();
+  const expiresAt: Record<string, string> = {};
+  for (const [key, at] of Object.entries(state?.expiry ?? {})) {
+    if (at > now) {
+      expiresAt[key] = new Date(at).toISOString();
+    }
+  }
+  return expiresAt;
+}
+
+function checkOptions(options: SessionSetOptions) {
+  for (const name of ["ttlSeconds", "expiresInSeconds"] as const) {
+    checkSeconds(name, options[name]);
+  }
+  if (options.maxLifetimeSeconds !== null) {
+    checkSeconds("maxLifetimeSeconds", options.maxLifetimeSeconds);
+  }
+}
+
+function checkSeconds(name: string, value: unknown) {
+  if (
+    value !== undefined &&
+    !(
+      Number.isInteger(value) &&
+      Number(value) > 0 &&
+      Number(value) <= MAX_TTL_SECONDS
+    )
+  ) {
+    throw new SessionError(
+      400,
+      `${name} must be a whole number of seconds from 1 to ${MAX_TTL_SECONDS}`
+    );
+  }
+}
+
+function checkKey(key: unknown) {
+  if (typeof key !== "string" || key.length === 0) {
+    throw new SessionError(400, "key must be a non-empty string");
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    throw new SessionError(
+      400,
+      `key must be at most ${MAX_KEY_LENGTH} characters`
+    );
+  }
+}
+
+function checkValue(key: string, value: unknown) {
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(value);
+  } catch {
+    json = undefined;
+  }
+  if (json === undefined) {
+    throw new SessionError(400, `The value of ${key} must be JSON`);
+  }
+  if (new TextEncoder().encode(json).byteLength > MAX_VALUE_BYTES) {
+    throw new SessionError(
+      413,
+      `The value of ${key} is larger than ${MAX_VALUE_BYTES} bytes`
+    );
+  }
+}
+
+function checkUpdate(values: Record<string, unknown>, remove: string[]) {
+  if (typeof values !== "object" || values === null || Array.isArray(values)) {
+    throw new SessionError(400, "values must be an object");
+  }
+  if (!Array.isArray(remove)) {
+    throw new SessionError(400, "remove must be an array of keys");
+  }
+
+  const keys = Object.keys(values);
+  if (keys.length + remove.length > MAX_BATCH_KEYS) {
+    throw new SessionError(
+      400,
+      `A write may set and remove at most ${MAX_BATCH_KEYS} keys`
+    );
+  }
+  for (const key of keys) {
+    checkKey(key);
+    checkValue(key, values[key]);
+  }
+  for (const key of remove) {
+    checkKey(key);
+    if (Object.prototype.hasOwnProperty.call(values, key)) {
+      throw new SessionError(400, `${key} is both set and removed`);
+    }
   }
 }
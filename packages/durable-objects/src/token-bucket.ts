@@ -0,0 +1,80 @@
+/**
+ * Token bucket helpers
+ *
+ * A continuous-refill token bucket: instead of topping the bucket up on a
+ * timer, the number of tokens is recomputed from the time elapsed since the
+ * last update whenever it is used. The state is a plain object, so callers
+ * can keep it wherever suits them (in memory, in a WebSocket attachment, in
+ * Durable Object storage).
+ */
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface TokenBucketOptions {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  state: TokenBucketState;
+  // Milliseconds until enough tokens are available (0 when allowed)
+  retryAfterMs: number;
+}
+
+/**
+ * Refills the bucket for the elapsed time without taking anything.
+ * A missing state is treated as a full bucket.
+ */
+export function refillTokens(
+  state: TokenBucketState | undefined,
+  options: TokenBucketOptions,
+  now: number = Date.now()
+): TokenBucketState {
+  if (!state) {
+    return { tokens: options.capacity, updatedAt: now };
+  }
+
+  const elapsedMs = Math.max(0, now - state.updatedAt);
+  return {
+    tokens: Math.min(
+      options.capacity,
+      state.tokens + (elapsedMs / 1000) * options.refillPerSecond
+    ),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Tries to take `cost` tokens. The returned state must be stored by the
+ * caller whether or not the request was allowed.
+ */
+export function takeTokens(
+  state: TokenBucketState | undefined,
+  options: TokenBucketOptions,
+  cost: number = 1,
+  now: number = Date.now()
+): TokenBucketResult {
+  const refilled = refillTokens(state, options, now);
+
+  if (refilled.tokens >= cost) {
+    return {
+      allowed: true,
+      state: { tokens: refilled.tokens - cost, updatedAt: now },
+      retryAfterMs: 0,
+    };
+  }
+
+  const missing = cost - refilled.tokens;
+  return {
+    allowed: false,
+    state: refilled,
+    retryAfterMs:
+      cost > options.capacity || options.refillPerSecond <= 0
+        ? Infinity
+        : Math.ceil((missing / options.refillPerSecond) * 1000),
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Request authentication
+ *
+ * Clients send a signed token (see token.ts) as `Authorization: Bearer
+ * <token>`. Browsers can't set headers on WebSocket or EventSource
+ * connections, so `?token=<token>` is accepted as well. The secret comes
+ * from the `AUTH_SECRET` binding.
+ *
+ * Once verified, the token's subject is passed to Durable Objects in the
+ * AUTHENTICATED_USER_HEADER. The worker always strips that header from
+ * incoming requests first, so a Durable Object can trust it.
+ */
+
+import { AUTHENTICATED_USER_HEADER } from "durable-objects";
+import { verifyToken, type TokenClaims } from "./token";
+
+/**
+ * Authenticates a request. Returns the verified claims, or a 401 response
+ * to send back to the client.
+ */
+export async function authenticate(
+  request: Request,
+  secret: string | undefined
+): Promise<TokenClaims | Response> {
+  if (!secret) {
+    return Response.json(
+      { error: "Authentication is not configured (missing AUTH_SECRET)" },
+      { status: 500 }
+    );
+  }
+
+  const token = getToken(request);
+  if (!token) {
+    return unauthorized("Missing bearer token");
+  }
+
+  const claims = await verifyToken(token, secret);
+  if (!claims) {
+    return unauthorized("Invalid or expired token");
+  }
+
+  return claims;
+}
+
+/**
+ * Returns a copy of the request with the authenticated user header set to
+ * `subject`, or removed entirely when `subject` is null. Any value the
+ * client sent itself is always discarded.
+ */
+export function withAuthenticatedUser(
+  request: Request,
+  subject: string | null
+): Request {
+  if (subject === null && !request.headers.has(AUTHENTICATED_USER_HEADER)) {
+    return request;
+  }
+
+  const headers = new Headers(request.headers);
+  headers.delete(AUTHENTICATED_USER_HEADER);
+  if (subject !== null) {
+    headers.set(AUTHENTICATED_USER_HEADER, subject);
+  }
+
+  return new Request(request, { headers });
+}
+
+/**
+ * Whether the request carries a token at all, valid or not.
+ */
+export function hasToken(request: Request): boolean {
+  return getToken(request) !== null;
+}
+
+function getToken(request: Request): string | null {
+  const authorization = request.headers.get("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+
+  return new URL(request.url).searchParams.get("token");
+}
+
+function unauthorized(error: string): Response {
+  return Response.json(
+    { error },
+    {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Bearer realm="do-playground"' },
+    }
+  );
+}
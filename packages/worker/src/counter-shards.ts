@@ -0,0 +1,150 @@
+/**
+ * Sharded counters
+ *
+ * Counter names listed in COUNTER_SHARDS are spread over that many Counter
+ * objects instead of one:
+ *
+ *   [vars.COUNTER_SHARDS]
+ *   page-views = 16
+ *
+ * Each increment, decrement or add goes to a random shard, so writes scale
+ * with the shard count. Reads go to the aggregator (the object named after
+ * the counter), which sums the shards and caches the total for a few
+ * seconds; `?fresh=true` sums them on the spot. Shard counts should only
+ * grow: counts held by shards beyond a lowered count are no longer summed.
+ * History stays on the shard that took each change; stats are summed over
+ * the shards.
+ *
+ * Names without an entry are handled by a single object as before.
+ */
+
+import {
+  DEFAULT_COUNTER,
+  shardName,
+  type CounterBucket,
+} from "durable-objects";
+import type { Env } from "./env";
+import type { RouteContext } from "./router";
+
+/**
+ * Handles a counter route, fanning out to shards when the counter name is
+ * sharded and forwarding to the counter's object otherwise.
+ */
+export async function routeCounter(
+  context: RouteContext<Env>
+): Promise<Response> {
+  const { request, env, url, name, stub } = context;
+
+  const shards = env.COUNTER_SHARDS?.[name];
+  if (shards === undefined) {
+    return stub.fetch(request);
+  }
+  if (!Number.isInteger(shards) || shards < 1) {
+    return Response.json(
+      { error: `COUNTER_SHARDS.${name} must be a positive integer` },
+      { status: 500 }
+    );
+  }
+
+  const counter = url.searchParams.get("counter") || DEFAULT_COUNTER;
+  const aggregator = env.COUNTER.get(env.COUNTER.idFromName(name));
+
+  switch (url.pathname) {
+    case "/counter/value": {
+      const fresh = url.searchParams.get("fresh") === "true";
+      const total = await aggregator.getTotal(
+        name,
+        shards,
+        counter,
+        fresh ? 0 : undefined
+      );
+      return Response.json({
+        counter,
+        value: total.value,
+        shards: total.shards,
+        cachedAt: total.cachedAt,
+      });
+    }
+
+    case "/counter/list":
+      return Response.json({
+        counters: await aggregator.listTotals(name, shards),
+      });
+
+    case "/counter/stats": {
+      const bucket = (url.searchParams.get("bucket") ||
+        "hour") as CounterBucket;
+      const since = url.searchParams.get("since");
+      const until = url.searchParams.get("until");
+      try {
+        const buckets = await aggregator.getTotalStats(
+          name,
+          shards,
+          counter,
+          bucket,
+          since === null ? undefined : Number(since),
+          until === null ? undefined : Number(until)
+        );
+        return Response.json({ counter, bucket, shards, buckets });
+      } catch (error) {
+        // The shards reject invalid buckets and times with a RangeError
+        if (error instanceof RangeError) {
+          return Response.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
+    case "/counter/history":
+      return Response.json(
+        { error: "History isn't available on sharded counters" },
+        { status: 400 }
+      );
+
+    case "/counter/reset":
+      await aggregator.resetShards(name, shards, counter);
+      return Response.json({ counter, value: 0, action: "reset" });
+
+    case "/counter/cas":
+      return Response.json(
+        { error: "Compare-and-set isn't available on sharded counters" },
+        { status: 400 }
+      );
+
+    case "/counter/add": {
+      const body = await request
+        .clone()
+        .json<{ min?: number; max?: number }>()
+        .catch(() => ({}) as { min?: number; max?: number });
+      if (body.min !== undefined || body.max !== undefined) {
+        return Response.json(
+          { error: "Bounds aren't available on sharded counters" },
+          { status: 400 }
+        );
+      }
+      return writeToShard(context, shards);
+    }
+
+    default:
+      return writeToShard(context, shards);
+  }
+}
+
+/**
+ * Forwards a write to a random shard. The response's `value` is that
+ * shard's count, not the total.
+ */
+async function writeToShard(
+  { request, env, name }: RouteContext<Env>,
+  shards: number
+): Promise<Response> {
+  const shard = Math.floor(Math.random() * shards);
+  const stub = env.COUNTER.get(env.COUNTER.idFromName(shardName(name, shard)));
+  const response = await stub.fetch(request);
+  if (!response.ok) {
+    return response;
+  }
+
+  const result = (await response.json()) as Record<string, unknown>;
+  return Response.json({ ...result, shard });
+}
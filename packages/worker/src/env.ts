@@ -0,0 +1,38 @@
+import type {
+  Batcher,
+  BatcherConfig,
+  ChatRoom,
+  Counter,
+  KVStore,
+  LatencyTester,
+  Location,
+  RateLimiter,
+  RateLimitConfig,
+  Session,
+  Streamer,
+  MyDurableObject as MyDurableObjectType,
+} from "durable-objects";
+
+export interface Env {
+  COUNTER: DurableObjectNamespace<Counter>;
+  CHAT_ROOM: DurableObjectNamespace<ChatRoom>;
+  BATCHER: DurableObjectNamespace<Batcher>;
+  RATE_LIMITER: DurableObjectNamespace<RateLimiter>;
+  LOCATION: DurableObjectNamespace<Location>;
+  SESSION: DurableObjectNamespace<Session>;
+  STREAMER: DurableObjectNamespace<Streamer>;
+  MY_DURABLE_OBJECT: DurableObjectNamespace<MyDurableObjectType>;
+  KV_STORE: DurableObjectNamespace<KVStore>;
+  LATENCY_TESTER: DurableObjectNamespace<LatencyTester>;
+  KV_CACHE: KVNamespace;
+  // Shard counts for counters too hot for one object (see counter-shards.ts)
+  COUNTER_SHARDS?: Record<string, number>;
+  // Batcher sinks and retry settings by batcher name (see batcher.ts)
+  BATCHERS?: Record<string, BatcherConfig>;
+  // Rate limiter settings by limiter name (see rate-limiter.ts)
+  RATE_LIMITS?: Record<string, RateLimitConfig>;
+  // Usernames that moderate every chat room (see chat-room.ts)
+  CHAT_ADMINS?: string[];
+  // Shared secret for verifying signed tokens (see auth.ts)
+  AUTH_SECRET: string;
+}
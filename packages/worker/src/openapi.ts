@@ -0,0 +1,379 @@
+/**
+ * OpenAPI document generation
+ *
+ * The OpenAPI 3 document served at `GET /openapi.json` is built from the
+ * same route table the router dispatches from. Routes describe their query
+ * parameters, request body and responses with the schema helpers below.
+ *
+ * `object<T>()` ties a schema to a TypeScript type: it requires exactly one
+ * property schema per key of `T`, and optional keys of `T` must be wrapped in
+ * `optional()`. Adding, removing or making a field optional in the type
+ * without updating its schema is a compile error, so the document can't
+ * silently drift from the code.
+ */
+
+import type { HttpMethod, ObjectNameSource, Route } from "./router";
+
+export interface JsonSchema {
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  description?: string;
+  format?: string;
+  enum?: readonly (string | number)[];
+  nullable?: boolean;
+  minimum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+}
+
+/**
+ * A property schema for a key that may be absent.
+ */
+export interface OptionalSchema {
+  optional: true;
+  schema: JsonSchema;
+}
+
+type Properties<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? OptionalSchema : JsonSchema;
+};
+
+export function object<T>(
+  properties: Properties<T>,
+  description?: string
+): JsonSchema {
+  const schemas: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries<JsonSchema | OptionalSchema>(
+    properties
+  )) {
+    if ("optional" in value) {
+      schemas[key] = value.schema;
+    } else {
+      schemas[key] = value;
+      required.push(key);
+    }
+  }
+
+  return {
+    type: "object",
+    ...(description ? { description } : {}),
+    properties: schemas,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+export function optional(schema: JsonSchema): OptionalSchema {
+  return { optional: true, schema };
+}
+
+export function nullable(schema: JsonSchema): JsonSchema {
+  // OpenAPI 3.0 ignores siblings of $ref, so references are wrapped
+  return schema.$ref
+    ? { allOf: [schema], nullable: true }
+    : { ...schema, nullable: true };
+}
+
+export function array(items: JsonSchema, description?: string): JsonSchema {
+  return { type: "array", items, ...(description ? { description } : {}) };
+}
+
+export function record(values: JsonSchema, description?: string): JsonSchema {
+  return {
+    type: "object",
+    additionalProperties: values,
+    ...(description ? { description } : {}),
+  };
+}
+
+export function string(description?: string): JsonSchema {
+  return { type: "string", ...(description ? { description } : {}) };
+}
+
+export function number(description?: string): JsonSchema {
+  return { type: "number", ...(description ? { description } : {}) };
+}
+
+export function integer(description?: string): JsonSchema {
+  return { type: "integer", ...(description ? { description } : {}) };
+}
+
+export function boolean(description?: string): JsonSchema {
+  return { type: "boolean", ...(description ? { description } : {}) };
+}
+
+export function literal(...values: string[]): JsonSchema {
+  return { type: "string", enum: values };
+}
+
+export function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+export interface QueryParameter {
+  description: string;
+  schema?: JsonSchema;
+  required?: boolean;
+}
+
+export interface RequestBody {
+  // Defaults to application/json
+  contentType?: string;
+  schema: JsonSchema;
+  required?: boolean;
+}
+
+export interface ResponseSpec {
+  description: string;
+  // Defaults to application/json
+  contentType?: string;
+  schema?: JsonSchema;
+  headers?: Record<string, string>;
+}
+
+/**
+ * The documentation part of a route.
+ */
+export interface RouteDocs {
+  tag?: string;
+  query?: Record<string, QueryParameter>;
+  requestBody?: RequestBody;
+  responses?: Record<number, ResponseSpec>;
+}
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  description?: string;
+  schemas: Record<string, JsonSchema>;
+}
+
+const ERROR_RESPONSE: JsonSchema = ref("Error");
+
+/**
+ * Builds an OpenAPI 3.0 document for `routes`.
+ */
+export function buildOpenApiDocument<E>(
+  routes: Route<E>[],
+  options: OpenApiOptions
+) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of routes) {
+    const { path, parameters } = toOpenApiPath(route.path);
+    const item = (paths[path] ??= {});
+
+    for (const method of route.methods) {
+      item[method.toLowerCase()] = buildOperation(route, method, parameters);
+    }
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description ? { description: options.description } : {}),
+    },
+    paths,
+    components: {
+      schemas: options.schemas,
+      securitySchemes: {
+        bearerToken: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+        queryToken: { type: "apiKey", in: "query", name: "token" },
+      },
+    },
+  };
+}
+
+function buildOperation<E>(
+  route: Route<E>,
+  method: HttpMethod,
+  pathParameters: unknown[]
+) {
+  const docs = route.docs ?? {};
+  const parameters: unknown[] = [...pathParameters];
+
+  const nameParameter = describeNameParameter(route.name);
+  if (nameParameter) {
+    parameters.push(nameParameter);
+  }
+  if (route.locationHintParam) {
+    parameters.push({
+      name: route.locationHintParam,
+      in: "query",
+      required: false,
+      description: "Location hint for the Durable Object",
+      schema: literal(...LOCATION_HINTS),
+    });
+  }
+  for (const [name, parameter] of Object.entries(docs.query ?? {})) {
+    parameters.push({
+      name,
+      in: "query",
+      required: parameter.required === true,
+      description: parameter.description,
+      schema: parameter.schema ?? string(),
+    });
+  }
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, response] of Object.entries(docs.responses ?? {})) {
+    responses[status] = buildResponse(response);
+  }
+  for (const middleware of route.middleware ?? []) {
+    for (const [status, response] of Object.entries(
+      middleware.responses ?? {}
+    )) {
+      responses[status] ??= buildResponse(response);
+    }
+  }
+  if (route.auth) {
+    responses["401"] ??= buildResponse({
+      description:
+        route.auth === "optional"
+          ? "Invalid or expired token"
+          : "Missing, invalid or expired token",
+      schema: ERROR_RESPONSE,
+    });
+  }
+  if (Object.keys(responses).length === 0) {
+    responses.default = { description: "Response from the Durable Object" };
+  }
+
+  // A request body only documents methods that can carry one
+  const requestBody =
+    docs.requestBody && method !== "GET" && method !== "DELETE"
+      ? {
+          required: docs.requestBody.required !== false,
+          content: {
+            [docs.requestBody.contentType ?? "application/json"]: {
+              schema: docs.requestBody.schema,
+            },
+          },
+        }
+      : undefined;
+
+  return {
+    operationId: operationId(method, route.path),
+    summary: route.description,
+    tags: [docs.tag ?? route.binding],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses,
+    ...(route.auth
+      ? {
+          // An empty requirement marks the token as optional
+          security: [
+            ...(route.auth === "optional" ? [{}] : []),
+            { bearerToken: [] },
+            { queryToken: [] },
+          ],
+        }
+      : {}),
+  };
+}
+
+function buildResponse(response: ResponseSpec) {
+  return {
+    description: response.description,
+    ...(response.headers
+      ? {
+          headers: Object.fromEntries(
+            Object.entries(response.headers).map(([name, description]) => [
+              name,
+              { description, schema: string() },
+            ])
+          ),
+        }
+      : {}),
+    ...(response.schema
+      ? {
+          content: {
+            [response.contentType ?? "application/json"]: {
+              schema: response.schema,
+            },
+          },
+        }
+      : {}),
+  };
+}
+
+function describeNameParameter(source: ObjectNameSource) {
+  switch (source.from) {
+    case "query":
+      return {
+        name: source.param,
+        in: "query",
+        required: false,
+        description: `Durable Object name (default "${source.fallback}")`,
+        schema: string(),
+      };
+    case "header":
+      return {
+        name: source.header,
+        in: "header",
+        required: false,
+        description: `Durable Object name (default "${source.fallback}")`,
+        schema: string(),
+      };
+    case "cookie":
+      return {
+        name: source.cookie,
+        in: "cookie",
+        required: false,
+        description: `Selects the Durable Object (default "${source.fallback}")`,
+        schema: string(),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts a router path to an OpenAPI path. A `/*` suffix becomes a
+ * `{path}` parameter.
+ */
+function toOpenApiPath(path: string) {
+  if (!path.endsWith("/*")) {
+    return { path, parameters: [] };
+  }
+
+  return {
+    path: `${path.slice(0, -2)}/{path}`,
+    parameters: [
+      {
+        name: "path",
+        in: "path",
+        required: true,
+        description: "Remainder of the path",
+        schema: string(),
+      },
+    ],
+  };
+}
+
+function operationId(method: HttpMethod, path: string): string {
+  const words = path
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1));
+  return `${method.toLowerCase()}${words.join("")}${path.endsWith("/*") ? "Path" : ""}`;
+}
+
+const LOCATION_HINTS = [
+  "wnam",
+  "enam",
+  "sam",
+  "weur",
+  "eeur",
+  "apac",
+  "oc",
+  "afr",
+  "me",
+];
@@ -0,0 +1,173 @@
+/**
+ * Rate limit policies
+ *
+ * A policy applies one RateLimiter limiter (configured in RATE_LIMITS) to a
+ * key derived from the request: the client IP, an API key header, the
+ * authenticated user, the route, or a composite of these. Every distinct
+ * key gets its own RateLimiter instance, so "per user" and "per route"
+ * limits are tracked independently.
+ *
+ * `rateLimit(...policies)` turns policies into route middleware. All
+ * policies are checked; the request is rejected with 429 if any of them is
+ * exhausted, and the response carries the headers of the most restrictive
+ * one. A policy whose key can't be derived (e.g. no API key header) doesn't
+ * apply to that request, so pair optional keys with an IP or user policy.
+ *
+ * Policies are checked concurrently on separate objects, so a request that
+ * one policy rejects still uses quota from the others.
+ */
+
+import { rateLimitHeaders, type RateLimitResult } from "durable-objects";
+import type { Env } from "./env";
+import type { Middleware, RouteContext } from "./router";
+
+export type RateLimitKey =
+  | { by: "ip" }
+  | { by: "header"; header: string }
+  | { by: "user" }
+  | { by: "route" }
+  | { by: "composite"; keys: RateLimitKey[] };
+
+export interface RateLimitPolicy {
+  // Limiter name in RATE_LIMITS
+  limiter: string;
+  key: RateLimitKey;
+  // Quota used per request (default 1)
+  cost?: number;
+}
+
+/**
+ * Middleware enforcing every policy on the route it is attached to.
+ */
+export function rateLimit(...policies: RateLimitPolicy[]): Middleware<Env> {
+  const middleware: Middleware<Env> = async (context, next) => {
+    const checks: Promise<RateLimitResult>[] = [];
+    for (const policy of policies) {
+      const key = await resolveKey(policy.key, context);
+      if (key === null) {
+        continue;
+      }
+
+      const id = context.env.RATE_LIMITER.idFromName(key);
+      checks.push(
+        context.env.RATE_LIMITER.get(id).check(policy.limiter, policy.cost ?? 1)
+      );
+    }
+
+    if (checks.length === 0) {
+      return next();
+    }
+
+    let results: RateLimitResult[];
+    try {
+      results = await Promise.all(checks);
+    } catch (error) {
+      // A misconfigured limiter shouldn't silently leave a route unprotected
+      return Response.json(
+        {
+          error: "Rate limit check failed",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 500 }
+      );
+    }
+
+    const binding = mostRestrictive(results);
+    if (!binding.allowed) {
+      return Response.json(
+        {
+          error: "Rate limit exceeded",
+          retry_after_ms: binding.retryAfterMs,
+        },
+        { status: 429, headers: rateLimitHeaders(binding) }
+      );
+    }
+
+    const response = await next();
+
+    // WebSocket upgrades can't be copied, so they go out unchanged
+    if (response.status === 101) {
+      return response;
+    }
+
+    const limited = new Response(response.body, response);
+    for (const [name, value] of Object.entries(rateLimitHeaders(binding))) {
+      limited.headers.set(name, value);
+    }
+    return limited;
+  };
+
+  middleware.responses = {
+    429: {
+      description: "Rate limit exceeded",
+      schema: { $ref: "#/components/schemas/Error" },
+      headers: {
+        "RateLimit-Limit": "Quota of the most restrictive policy",
+        "RateLimit-Remaining": "Quota left",
+        "RateLimit-Reset": "Seconds until the full quota is available",
+        "Retry-After": "Seconds to wait before retrying",
+      },
+    },
+  };
+
+  return middleware;
+}
+
+/**
+ * The result whose headers a response should carry: the rejection that
+ * lasts longest, or the policy with the least quota left.
+ */
+function mostRestrictive(results: RateLimitResult[]): RateLimitResult {
+  const rejected = results.filter((result) => !result.allowed);
+  if (rejected.length > 0) {
+    return rejected.reduce((a, b) => (b.retryAfterMs > a.retryAfterMs ? b : a));
+  }
+  return results.reduce((a, b) =>
+    b.remaining / b.limit < a.remaining / a.limit ? b : a
+  );
+}
+
+/**
+ * Builds the RateLimiter object name for a key, or null when the request
+ * doesn't carry it. API keys are hashed so they never appear in names.
+ */
+async function resolveKey(
+  key: RateLimitKey,
+  context: RouteContext<Env>
+): Promise<string | null> {
+  switch (key.by) {
+    case "ip": {
+      const ip = context.request.headers.get("CF-Connecting-IP");
+      return ip ? `ip:${ip}` : null;
+    }
+    case "header": {
+      const value = context.request.headers.get(key.header);
+      return value ? `${key.header}:${await sha256(value)}` : null;
+    }
+    case "user":
+      return context.user === null ? null : `user:${context.user}`;
+    case "route":
+      return `route:${context.route.path}`;
+    case "composite": {
+      const parts: string[] = [];
+      for (const part of key.keys) {
+        const resolved = await resolveKey(part, context);
+        if (resolved === null) {
+          return null;
+        }
+        parts.push(resolved);
+      }
+      return parts.join("|");
+    }
+  }
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
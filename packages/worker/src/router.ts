@@ -0,0 +1,312 @@
+/**
+ * Declarative router
+ *
+ * Each route declares its path, HTTP methods, the Durable Object namespace
+ * it is served by and how the object name is derived from the request. The
+ * router uses the same table both to dispatch requests and to generate the
+ * endpoint listing served at `GET /`, so the two can't drift apart.
+ *
+ * The table also feeds the OpenAPI document at `GET /openapi.json`.
+ *
+ * Routes can list middleware (such as rate limiting, see rate-limit.ts) that
+ * runs after authentication, in order, around the route's handler.
+ * Middleware may point `name` and `stub` at another object before calling
+ * `next` (see session-cookie.ts).
+ *
+ * Paths are matched exactly, or by prefix when they end in `/*`.
+ */
+
+import { authenticate, hasToken, withAuthenticatedUser } from "./auth";
+import {
+  buildOpenApiDocument,
+  type JsonSchema,
+  type ResponseSpec,
+  type RouteDocs,
+} from "./openapi";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+/**
+ * How a route picks which Durable Object instance handles a request.
+ */
+export type ObjectNameSource =
+  | { from: "query"; param: string; fallback: string }
+  | { from: "header"; header: string; fallback: string }
+  | { from: "cookie"; cookie: string; fallback: string }
+  // Without a fallback, requests with no client IP are rejected
+  | { from: "ip"; fallback?: string }
+  | { from: "constant"; value: string }
+  | { from: "path" };
+
+/**
+ * Keys of `E` that hold a Durable Object namespace binding.
+ */
+export type NamespaceBinding<E> = {
+  // Inferred, since a namespace's object type parameter is invariant
+  [K in keyof E]: E[K] extends DurableObjectNamespace<infer _Object>
+    ? K
+    : never;
+}[keyof E];
+
+export interface RouteContext<E> {
+  request: Request;
+  env: E;
+  url: URL;
+  // The derived object name
+  name: string;
+  locationHint: DurableObjectLocationHint | null;
+  stub: DurableObjectStub;
+  // The verified token subject on routes with `auth`
+  user: string | null;
+  route: Route<E>;
+}
+
+/**
+ * Runs around a route's handler. Call `next` to continue, or return a
+ * response to stop the request.
+ */
+export interface Middleware<E> {
+  (context: RouteContext<E>, next: () => Promise<Response>): Promise<Response>;
+  // Responses the middleware can produce, added to the OpenAPI document
+  responses?: Record<number, ResponseSpec>;
+}
+
+export interface Route<E> {
+  path: string;
+  methods: HttpMethod[];
+  binding: NamespaceBinding<E>;
+  name: ObjectNameSource;
+  description: string;
+  // Requires a verified token; the subject is forwarded to the object.
+  // "optional" lets requests without a token through anonymously
+  auth?: boolean | "optional";
+  // Query parameter carrying an optional location hint for the object
+  locationHintParam?: string;
+  // Custom handling; by default the request is forwarded to the stub
+  handle?: (context: RouteContext<E>) => Promise<Response>;
+  middleware?: Middleware<E>[];
+  // Parameters, bodies and responses for the OpenAPI document
+  docs?: RouteDocs;
+}
+
+export interface RouterOptions<E> {
+  title: string;
+  // Extra notes included in the endpoint listing
+  notes?: Record<string, string>;
+  // Reads the token secret for routes with `auth`
+  authSecret?: (env: E) => string | undefined;
+  // API version and shared schemas for the OpenAPI document
+  version: string;
+  schemas: Record<string, JsonSchema>;
+}
+
+export class Router<E> {
+  constructor(
+    private routes: Route<E>[],
+    private options: RouterOptions<E>
+  ) {}
+
+  async fetch(request: Request, env: E): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === "/" && request.method === "GET") {
+      return new Response(JSON.stringify(this.describe(), null, 2), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (url.pathname === "/openapi.json" && request.method === "GET") {
+      return Response.json(this.openApiDocument());
+    }
+
+    const matches = this.routes.filter((route) =>
+      matchesPath(route.path, url.pathname)
+    );
+    if (matches.length === 0) {
+      return Response.json(
+        {
+          error: "Not found",
+          message: `No endpoint matches ${url.pathname}. GET / lists the available endpoints.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const route = matches.find((candidate) =>
+      candidate.methods.includes(request.method as HttpMethod)
+    );
+    if (!route) {
+      const allowed = Array.from(
+        new Set(matches.flatMap((candidate) => candidate.methods))
+      );
+      return Response.json(
+        {
+          error: "Method not allowed",
+          message: `${request.method} is not supported for ${url.pathname}`,
+          allowed,
+        },
+        { status: 405, headers: { Allow: allowed.join(", ") } }
+      );
+    }
+
+    // Only routes that verify a token may pass an identity to an object;
+    // anything a client sent itself is always discarded
+    let subject: string | null = null;
+    if (
+      route.auth === true ||
+      (route.auth === "optional" && hasToken(request))
+    ) {
+      const claims = await authenticate(
+        request,
+        this.options.authSecret?.(env)
+      );
+      if (claims instanceof Response) {
+        return claims;
+      }
+      subject = claims.sub;
+    }
+    request = withAuthenticatedUser(request, subject);
+
+    const locationHint = route.locationHintParam
+      ? (url.searchParams.get(
+          route.locationHintParam
+        ) as DurableObjectLocationHint | null)
+      : null;
+
+    // A location hint is only respected when an object is first created,
+    // so hinted objects get their own name per location
+    const baseName = resolveName(route.name, request, url);
+    if (baseName === null) {
+      return Response.json(
+        { error: "This endpoint needs the client IP, which is missing" },
+        { status: 400 }
+      );
+    }
+    const name = locationHint ? `${baseName}-${locationHint}` : baseName;
+
+    const namespace = env[route.binding] as DurableObjectNamespace;
+    const id = namespace.idFromName(name);
+    const stub = locationHint
+      ? namespace.get(id, { locationHint })
+      : namespace.get(id);
+
+    const context: RouteContext<E> = {
+      request,
+      env,
+      url,
+      name,
+      locationHint,
+      stub,
+      user: subject,
+      route,
+    };
+    const middleware = route.middleware ?? [];
+    const run = (index: number): Promise<Response> => {
+      if (index < middleware.length) {
+        return middleware[index](context, () => run(index + 1));
+      }
+      return route.handle
+        ? route.handle(context)
+        : context.stub.fetch(context.request);
+    };
+
+    return run(0);
+  }
+
+  /**
+   * The endpoint listing served at `GET /`.
+   */
+  describe() {
+    return {
+      message: this.options.title,
+      ...this.options.notes,
+      openapi: "GET /openapi.json",
+      endpoints: this.routes.map((route) => ({
+        methods: route.methods,
+        path: route.path,
+        description: route.description,
+        object: route.binding,
+        objectName: describeName(route.name),
+        ...(route.locationHintParam
+          ? { locationHint: `?${route.locationHintParam}=<hint>` }
+          : {}),
+        auth: route.auth ?? false,
+      })),
+    };
+  }
+
+  /**
+   * The OpenAPI document served at `GET /openapi.json`.
+   */
+  openApiDocument() {
+    return buildOpenApiDocument(this.routes, {
+      title: this.options.title,
+      version: this.options.version,
+      description: Object.values(this.options.notes ?? {}).join("\n\n"),
+      schemas: this.options.schemas,
+    });
+  }
+}
+
+function matchesPath(pattern: string, pathname: string): boolean {
+  if (pattern.endsWith("/*")) {
+    const prefix = pattern.slice(0, -2);
+    return pathname === prefix || pathname.startsWith(`${prefix}/`);
+  }
+  return pathname === pattern;
+}
+
+function resolveName(
+  source: ObjectNameSource,
+  request: Request,
+  url: URL
+): string | null {
+  switch (source.from) {
+    case "query":
+      return url.searchParams.get(source.param) || source.fallback;
+    case "header":
+      return request.headers.get(source.header) || source.fallback;
+    case "cookie":
+      return getCookie(request, source.cookie) || source.fallback;
+    case "ip":
+      return (
+        request.headers.get("CF-Connecting-IP") || (source.fallback ?? null)
+      );
+    case "constant":
+      return source.value;
+    case "path":
+      return url.pathname;
+  }
+}
+
+function describeName(source: ObjectNameSource): string {
+  switch (source.from) {
+    case "query":
+      return `?${source.param}=<name> (default "${source.fallback}")`;
+    case "header":
+      return `${source.header} header (default "${source.fallback}")`;
+    case "cookie":
+      return `${source.cookie} cookie (default "${source.fallback}")`;
+    case "ip":
+      return source.fallback === undefined
+        ? "client IP (required)"
+        : `client IP (default "${source.fallback}")`;
+    case "constant":
+      return `"${source.value}"`;
+    case "path":
+      return "request path";
+  }
+}
+
+/**
+ * Reads one cookie from the request's Cookie header.
+ */
+export function getCookie(request: Request, name: string): string | null {
+  for (const pair of (request.headers.get("Cookie") ?? "").split(";")) {
+    const index = pair.indexOf("=");
+    if (index !== -1 && pair.slice(0, index).trim() === name) {
+      return pair.slice(index + 1).trim();
+    }
+  }
+  return null;
+}
@@ -0,0 +1,1252 @@
+/**
+ * Route table
+ *
+ * Every endpoint the worker serves. The router dispatches requests from
+ * this table and generates both the `GET /` listing and the OpenAPI
+ * document from it, so a new endpoint only needs to be added here.
+ */
+
+import type { Env } from "./env";
+import {
+  array,
+  boolean,
+  integer,
+  literal,
+  nullable,
+  object,
+  optional,
+  record,
+  ref,
+  string,
+  type ResponseSpec,
+} from "./openapi";
+import { routeCounter } from "./counter-shards";
+import { rateLimit } from "./rate-limit";
+import {
+  destroySession,
+  rotateSession,
+  SESSION_COOKIE,
+  sessionCookie,
+} from "./session-cookie";
+import type { Route, RouteContext } from "./router";
+import type {
+  ChatMember,
+  KVStoreConfig,
+  ModerationConfig,
+  RetentionPolicy,
+  Sanction,
+} from "durable-objects";
+
+const chatRoom = { from: "query", param: "room", fallback: "default" } as const;
+// Resolved and verified by the sessionCookie() middleware
+const session = {
+  from: "cookie",
+  cookie: SESSION_COOKIE,
+  fallback: "none",
+} as const;
+const kvRoom = { from: "query", param: "room", fallback: "default" } as const;
+const counter = {
+  from: "query",
+  param: "name",
+  fallback: "global-counter",
+} as const;
+
+// Selects one of the counters held by a Counter object
+const counterParam = {
+  description: 'Counter name within the object (default "default")',
+};
+
+function ok(schema: string, description = "Success"): ResponseSpec {
+  return { description, schema: ref(schema) };
+}
+
+function error(description: string): ResponseSpec {
+  return { description, schema: ref("Error") };
+}
+
+// Failures shared by the routes that post or change chat messages
+const chatWriteErrors: Record<number, ResponseSpec> = {
+  400: error("Missing or invalid fields"),
+  403: error("Not allowed, muted or banned"),
+  404: error("Unknown message id"),
+  409: error("Message has been deleted"),
+  413: error("Message too long"),
+  422: error("Message matches a blocked pattern"),
+  429: {
+    ...error("Rate limited"),
+    headers: { "Retry-After": "Seconds to wait before retrying" },
+  },
+};
+
+const rateLimitHeaders = {
+  "RateLimit-Limit": "Bucket capacity or requests per window",
+  "RateLimit-Remaining": "Quota left",
+  "RateLimit-Reset": "Seconds until the full quota is available",
+};
+
+// Each user has their own budget, and the route as a whole has a ceiling
+const chatSendLimits = rateLimit(
+  { limiter: "chat", key: { by: "user" } },
+  { limiter: "chat-route", key: { by: "route" } }
+);
+
+// Clients with an API key get a daily quota; everyone is limited per IP
+const kvWriteLimits = rateLimit(
+  { limiter: "api", key: { by: "header", header: "X-API-Key" } },
+  {
+    limiter: "default",
+    key: { by: "composite", keys: [{ by: "ip" }, { by: "route" }] },
+  }
+);
+
+export const routes: Route<Env>[] = [
+  // Counter
+  {
+    path: "/counter/value",
+    methods: ["GET"],
+    binding: "COUNTER",
+    name: counter,
+    auth: "optional",
+    handle: routeCounter,
+    description:
+      "Current value of a counter. Sharded counters (COUNTER_SHARDS) return the sum over their shards, cached for up to 5 seconds",
+    docs: {
+      query: {
+        counter: counterParam,
+        fresh: {
+          description:
+            "Sharded counters: sum the shards now instead of using the cached total",
+          schema: boolean(),
+        },
+      },
+      responses: { 200: ok("CounterResult") },
+    },
+  },
+  {
+    path: "/counter/list",
+    methods: ["GET"],
+    binding: "COUNTER",
+    name: counter,
+    auth: "optional",
+    handle: routeCounter,
+    description:
+      "Every counter in the object and its value (summed over the shards for sharded counters)",
+    docs: { responses: { 200: ok("CounterList") } },
+  },
+  {
+    path: "/counter/increment",
+    methods: ["POST"],
+    binding: "COUNTER",
+    name: counter,
+    auth: "optional",
+    handle: routeCounter,
+    description: "Increment a counter by 1",
+    docs: {
+      query: { counter: counterParam },
+      responses: { 200: ok("CounterResult") },
+    },
+  },
+  {
+    path: "/counter/decrement",
+    methods: ["POST"],
+    binding: "COUNTER",
+    name: counter,
+    auth: "optional",
+    handle: routeCounter,
+    description: "Decrement a counter by 1",
+    docs: {
+      query: { counter: counterParam },
+      responses: { 200: ok("CounterResult") },
+    },
+  },
+  {
+    path: "/counter/add",
+    methods: ["POST"],
+    binding: "COUNTER",
+    name: counter,
+    auth: "optional",
+    handle: routeCounter,
+    description:
+      "Atomically add any delta to a counter; with min or max, the add is rejected if the result would fall outside them. Sharded counters take the add on a random shard and don't support bounds",
+    docs: {
+      query: { counter: counterParam },
+      requestBody: {
+        schema: object<{
+          counter?: string;
+          delta: number;
+          min?: number;
+          max?: number;
+        }>({
+          counter: optional(string("Overrides the counter query parameter")),
+          delta: integer("May be negative"),
+          min: optional(integer()),
+          max: optional(integer()),
+        }),
+      },
+      responses: {
+        200: ok("CounterResult"),
+        400: error(
+          "delta, min or max is not an integer, or bounds on a sharded counter"
+        ),
+        409: ok("CounterConflict", "The result would be out of bounds"),
+      },
+    },
+  },
+  {
+    path: "/counter/cas",
+    methods: ["POST"],
+    binding: "COUNTER",
+    name: counter,
+    auth: "optional",
+    handle: routeCounter,
+    description:
+      "Compare-and-set: set a counter to value only if it currently equals expected. Not available on sharded counters",
+    docs: {
+      query: { counter: counterParam },
+      requestBody: {
+        schema: object<{ counter?: string; expected: number; value: number }>({
+          counter: optional(string("Overrides the counter query parameter")),
+          expected: integer(),
+          value: integer(),
+        }),
+      },
+      responses: {
+        200: ok("CounterResult"),
+        400: error(
+          "expected or value is not an integer, or the counter is sharded"
+        ),
+        409: ok(
+          "CounterConflict",
+          "The counter didn't have the expected value"
+        ),
+      },
+    },
+  },
+  {
+    path: "/counter/reset",
+    methods: ["POST"],
+    binding: "COUNTER",
+    name: counter,
+    auth: "optional",
+    handle: routeCounter,
+    description: "Reset a counter to 0",
+    docs: {
+      query: { counter: counterParam },
+      responses: { 200: ok("CounterResult") },
+    },
+  },
+  {
+    path: "/counter/history",
+    methods: ["GET"],
+    binding: "COUNTER",
+    name: counter,
+    auth: "optional",
+    handle: routeCounter,
+    description:
+      "A counter's changes from the last week, paginated with change id cursors. Not available on sharded counters",
+    docs: {
+      query: {
+        counter: counterParam,
+        before: {
+          description: "Return changes older than this id",
+          schema: { type: "integer" },
+        },
+        after: {
+          description: "Return changes newer than this id",
+          schema: { type: "integer" },
+        },
+        limit: {
+          description: "Page size (default 50, max 200)",
+          schema: { type: "integer", minimum: 1 },
+        },
+      },
+      responses: {
+        200: ok("CounterHistoryPage"),
+        400: error(
+          "Invalid cursor combination or limit, or the counter is sharded"
+        ),
+      },
+    },
+  },
+  {
+    path: "/counter/stats",
+    methods: ["GET"],
+    binding: "COUNTER",
+    name: counter,
+    auth: "optional",
+    handle: routeCounter,
+    description:
+      "A counter's changes summed per minute, hour or day. Changes older than a week only have hourly resolution",
+    docs: {
+      query: {
+        counter: counterParam,
+        bucket: {
+          description: "Bucket size (default hour)",
+          schema: literal("minute", "hour", "day"),
+        },
+        since: {
+          description: "Only changes at or after this time (ms since epoch)",
+          schema: { type: "integer" },
+        },
+        until: {
+          description: "Only changes before this time (ms since epoch)",
+          schema: { type: "integer" },
+        },
+      },
+      responses: {
+        200: ok("CounterStats"),
+        400: error("Unknown bucket or invalid times"),
+      },
+    },
+  },
+
+  // ChatRoom
+  {
+    path: "/chat/ws",
+    methods: ["GET"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description:
+      "Upgrade to a WebSocket speaking the ChatRoom protocol (see ClientMessage and ServerMessage in durable-objects)",
+    docs: {
+      responses: {
+        101: { description: "Switched to the WebSocket protocol" },
+        403: error("Banned from the room"),
+        426: { description: "Expected WebSocket upgrade" },
+      },
+    },
+  },
+  {
+    path: "/chat/send",
+    methods: ["POST"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description: "Send a message",
+    middleware: [chatSendLimits],
+    docs: {
+      requestBody: { schema: object<{ text: string }>({ text: string() }) },
+      responses: { 200: ok("MessageResult"), ...chatWriteErrors },
+    },
+  },
+  {
+    path: "/chat/events",
+    methods: ["GET"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description:
+      "Server-Sent Events stream of everything broadcast to the room. Each event's data is a ServerMessage; message events carry the message id as their event id.",
+    docs: {
+      query: {
+        lastEventId: {
+          description:
+            "Replay messages after this id (the Last-Event-ID header takes precedence)",
+        },
+      },
+      responses: {
+        200: {
+          description: "Event stream",
+          contentType: "text/event-stream",
+          schema: string(),
+        },
+        403: error("Banned from the room"),
+      },
+    },
+  },
+  {
+    path: "/chat/messages",
+    methods: ["GET"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description: "Message history, paginated with message id cursors",
+    docs: {
+      query: {
+        before: { description: "Return messages older than this id" },
+        after: { description: "Return messages newer than this id" },
+        limit: {
+          description: "Page size (default 50, max 200)",
+          schema: { type: "integer", minimum: 1 },
+        },
+      },
+      responses: {
+        200: ok("HistoryPage"),
+        400: error("Invalid cursor combination or limit"),
+        403: error("Banned from the room"),
+        404: error("Unknown message id"),
+      },
+    },
+  },
+  {
+    path: "/chat/edit",
+    methods: ["POST"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description: "Edit your own message",
+    docs: {
+      requestBody: {
+        schema: object<{ messageId: string; text: string }>({
+          messageId: string(),
+          text: string(),
+        }),
+      },
+      responses: { 200: ok("MessageResult"), ...chatWriteErrors },
+    },
+  },
+  {
+    path: "/chat/delete",
+    methods: ["POST"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description: "Delete your own message, or any message as a moderator",
+    docs: {
+      requestBody: {
+        schema: object<{ messageId: string }>({ messageId: string() }),
+      },
+      responses: { 200: ok("MessageResult"), ...chatWriteErrors },
+    },
+  },
+  {
+    path: "/chat/react",
+    methods: ["POST"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description: "Add or remove a reaction",
+    docs: {
+      requestBody: {
+        schema: object<{ messageId: string; emoji: string; remove?: boolean }>({
+          messageId: string(),
+          emoji: string(),
+          remove: optional(boolean()),
+        }),
+      },
+      responses: { 200: ok("MessageResult"), ...chatWriteErrors },
+    },
+  },
+  {
+    path: "/chat/members",
+    methods: ["GET"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description: "Users currently online",
+    docs: {
+      responses: {
+        200: {
+          description: "Success",
+          schema: object<{ members: ChatMember[]; sessionCount: number }>({
+            members: { type: "array", items: ref("ChatMember") },
+            sessionCount: integer("Open connections in the room"),
+          }),
+        },
+      },
+    },
+  },
+  {
+    path: "/chat/moderation",
+    methods: ["GET"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description: "Moderation settings and active bans and mutes",
+    docs: {
+      responses: {
+        200: {
+          description: "Success",
+          schema: object<{
+            config: ModerationConfig;
+            bans: Record<string, Sanction>;
+            mutes: Record<string, Sanction>;
+          }>({
+            config: ref("ModerationConfig"),
+            bans: record(ref("Sanction"), "Username -> ban"),
+            mutes: record(ref("Sanction"), "Username -> mute"),
+          }),
+        },
+      },
+    },
+  },
+  {
+    path: "/chat/moderation",
+    methods: ["PUT"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description:
+      "Update moderation settings; omitted fields are unchanged. Moderators and CHAT_ADMINS only",
+    docs: {
+      requestBody: {
+        schema: object<Partial<ModerationConfig>>({
+          moderators: optional({ type: "array", items: string() }),
+          blockedPatterns: optional({ type: "array", items: string() }),
+          maxMessageLength: optional(integer()),
+        }),
+      },
+      responses: {
+        200: {
+          description: "Success",
+          schema: object<{ success: boolean; config: ModerationConfig }>({
+            success: boolean(),
+            config: ref("ModerationConfig"),
+          }),
+        },
+        400: error("Invalid settings"),
+        403: error("Not a moderator of this room"),
+      },
+    },
+  },
+  {
+    path: "/chat/moderate",
+    methods: ["POST"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description: "Mute, unmute, kick, ban or unban a user (moderators only)",
+    docs: {
+      requestBody: {
+        schema: object<{
+          action: string;
+          username: string;
+          durationMs?: number;
+          reason?: string;
+        }>({
+          action: literal("mute", "unmute", "kick", "ban", "unban"),
+          username: string(),
+          durationMs: optional(
+            integer("How long a mute or ban lasts; omit for no expiry")
+          ),
+          reason: optional(string()),
+        }),
+      },
+      responses: {
+        200: {
+          description: "Success",
+          schema: object<{ success: boolean }>({ success: boolean() }),
+        },
+        400: error("Missing or invalid fields"),
+        403: error("Not a moderator"),
+      },
+    },
+  },
+  {
+    path: "/chat/retention",
+    methods: ["GET"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description: "History retention policy",
+    docs: {
+      responses: {
+        200: {
+          description: "Success",
+          schema: object<{ retention: RetentionPolicy }>({
+            retention: ref("RetentionPolicy"),
+          }),
+        },
+      },
+    },
+  },
+  {
+    path: "/chat/retention",
+    methods: ["PUT"],
+    binding: "CHAT_ROOM",
+    name: chatRoom,
+    auth: true,
+    description:
+      "Update the retention policy; omitted fields are unchanged, null disables a limit. Moderators and CHAT_ADMINS only, since pruning can't be undone",
+    docs: {
+      requestBody: {
+        schema: object<Partial<RetentionPolicy>>({
+          maxMessages: optional({ type: "integer", nullable: true }),
+          maxAgeMs: optional({ type: "integer", nullable: true }),
+        }),
+      },
+      responses: {
+        200: {
+          description: "Success",
+          schema: object<{ success: boolean; retention: RetentionPolicy }>({
+            success: boolean(),
+            retention: ref("RetentionPolicy"),
+          }),
+        },
+        400: error("Invalid limits"),
+        403: error("Not a moderator of this room"),
+      },
+    },
+  },
+
+  // Batcher
+  {
+    path: "/batcher",
+    methods: ["POST"],
+    binding: "BATCHER",
+    name: { from: "query", param: "name", fallback: "default" },
+    description:
+      "Queue an item; items are batched for the window configured in BATCHERS (10 seconds by default) and then delivered to the batcher's sink. A JSON body with debounce: true restarts the window instead, up to the max wait. Reaching maxItems or maxBytes flushes immediately. Send Idempotency-Key to make retries safe and X-Producer-Id to tag the item.",
+    docs: {
+      requestBody: {
+        contentType: "text/plain",
+        schema: string('Any text, or JSON such as {"debounce": true}'),
+      },
+      responses: { 200: ok("EnqueueResult") },
+    },
+  },
+  {
+    path: "/batcher/flush",
+    methods: ["POST"],
+    binding: "BATCHER",
+    name: { from: "query", param: "name", fallback: "default" },
+    description:
+      "Deliver the pending items now instead of waiting for the window",
+    docs: {
+      responses: {
+        200: ok("FlushResult"),
+        500: error("Invalid batcher configuration"),
+      },
+    },
+  },
+  {
+    path: "/batcher/status",
+    methods: ["GET"],
+    binding: "BATCHER",
+    name: { from: "query", param: "name", fallback: "default" },
+    description: "Pending item count and size, and when the next flush is due",
+    docs: { responses: { 200: ok("BatcherStatus") } },
+  },
+  {
+    path: "/batcher/dead-letter",
+    methods: ["GET"],
+    binding: "BATCHER",
+    name: { from: "query", param: "name", fallback: "default" },
+    description:
+      "List batches that could not be delivered to the batcher's sink after every retry",
+    docs: { responses: { 200: ok("DeadLetterList") } },
+  },
+  {
+    path: "/batcher/dead-letter/replay",
+    methods: ["POST"],
+    binding: "BATCHER",
+    name: { from: "query", param: "name", fallback: "default" },
+    description:
+      "Queue dead-lettered items again and deliver them right away (one batch with ?id=, otherwise all)",
+    docs: {
+      query: {
+        id: {
+          description: "Dead letter to replay (default all)",
+          schema: { type: "integer" },
+        },
+      },
+      responses: {
+        200: ok("ReplayResult"),
+        400: error("Invalid id"),
+        404: error("Unknown dead letter"),
+      },
+    },
+  },
+
+  // RateLimiter
+  {
+    path: "/rate-limit",
+    methods: ["GET"],
+    binding: "RATE_LIMITER",
+    // Sharing one bucket between every client without an IP would let
+    // any of them exhaust it for the rest
+    name: { from: "ip" },
+    description:
+      "Rate limiter keyed by client IP. Limiters are configured in RATE_LIMITS with a token bucket, fixed window, sliding window log or sliding window counter algorithm.",
+    docs: {
+      query: {
+        limiter: { description: 'Limiter name (default "default")' },
+        cost: {
+          description: "Quota this request uses (default 1)",
+          schema: { type: "integer", minimum: 1 },
+        },
+      },
+      responses: {
+        200: {
+          ...ok("RateLimitAllowed", "Request allowed"),
+          headers: rateLimitHeaders,
+        },
+        400: error("Unknown limiter, invalid cost or no client IP"),
+        429: {
+          ...ok("RateLimitExceeded", "Rate limit exceeded"),
+          headers: {
+            ...rateLimitHeaders,
+            "Retry-After": "Seconds until this cost can be paid",
+          },
+        },
+        500: error("Internal rate limiter error"),
+      },
+    },
+  },
+
+  // Location
+  {
+    path: "/location",
+    methods: ["GET"],
+    binding: "LOCATION",
+    name: { from: "constant", value: "A" },
+    description:
+      "Demonstrates in-memory state. Tracks location across requests until the DO is evicted from memory.",
+    docs: {
+      responses: {
+        200: {
+          description: "The previous and current location",
+          contentType: "text/plain",
+          schema: string(),
+        },
+      },
+    },
+  },
+
+  // Session
+  {
+    path: "/session/set",
+    methods: ["POST"],
+    binding: "SESSION",
+    name: session,
+    auth: true,
+    middleware: [sessionCookie({ create: true })],
+    description:
+      "Set a session value. Without a session cookie, starts a new session and sets the cookie. The first write creates the session and chooses its timeouts; data is deleted after ttlSeconds of inactivity (default 30) or at the end of maxLifetimeSeconds",
+    docs: {
+      requestBody: {
+        schema: object<{
+          key: string;
+          value: unknown;
+          expiresInSeconds?: number;
+          ttlSeconds?: number;
+          maxLifetimeSeconds?: number | null;
+        }>({
+          key: string("Up to 512 characters"),
+          value: { description: "Any JSON value, up to 64 KiB encoded" },
+          expiresInSeconds: optional(
+            integer("Delete this key after this long")
+          ),
+          ttlSeconds: optional(
+            integer("Inactivity timeout; only used when creating the session")
+          ),
+          maxLifetimeSeconds: optional(
+            nullable(
+              integer(
+                "Absolute lifetime activity can't extend; only used when creating the session"
+              )
+            )
+          ),
+        }),
+      },
+      responses: {
+        200: ok("SessionSetResult"),
+        400: error("Invalid key or timeout"),
+        403: error("The session belongs to another user"),
+        413: error("The value is larger than 64 KiB"),
+      },
+    },
+  },
+  {
+    path: "/session/mset",
+    methods: ["POST"],
+    binding: "SESSION",
+    name: session,
+    auth: true,
+    middleware: [sessionCookie({ create: true })],
+    description:
+      "Set and remove several session values in one transaction: every change is stored or none is. Creates the session like /session/set",
+    docs: {
+      requestBody: {
+        schema: object<{
+          values: Record<string, unknown>;
+          remove?: string[];
+          expiresInSeconds?: number;
+          ttlSeconds?: number;
+          maxLifetimeSeconds?: number | null;
+        }>({
+          values: record({}, "JSON values to store, by key"),
+          remove: optional(array(string(), "Keys to delete")),
+          expiresInSeconds: optional(
+            integer("Delete the stored keys after this long")
+          ),
+          ttlSeconds: optional(
+            integer("Inactivity timeout; only used when creating the session")
+          ),
+          maxLifetimeSeconds: optional(
+            nullable(
+              integer(
+                "Absolute lifetime activity can't extend; only used when creating the session"
+              )
+            )
+          ),
+        }),
+      },
+      responses: {
+        200: ok("SessionMsetResult"),
+        400: error(
+          "Invalid key or timeout, more than 128 keys, or a key both set and removed"
+        ),
+        403: error("The session belongs to another user"),
+        413: error("A value is larger than 64 KiB"),
+      },
+    },
+  },
+  {
+    path: "/session/get",
+    methods: ["GET"],
+    binding: "SESSION",
+    name: session,
+    auth: true,
+    middleware: [sessionCookie()],
+    description: "Get a session value",
+    docs: {
+      query: { key: { description: "Key to read", required: true } },
+      responses: {
+        200: ok("SessionValue"),
+        400: error("Missing or invalid key"),
+        403: error("The session belongs to another user"),
+      },
+    },
+  },
+  {
+    path: "/session/all",
+    methods: ["GET"],
+    binding: "SESSION",
+    name: session,
+    auth: true,
+    middleware: [sessionCookie()],
+    description: "All session values",
+    docs: {
+      responses: {
+        200: ok("SessionData"),
+        403: error("The session belongs to another user"),
+      },
+    },
+  },
+  {
+    path: "/session/key",
+    methods: ["DELETE"],
+    binding: "SESSION",
+    name: session,
+    auth: true,
+    middleware: [sessionCookie()],
+    description: "Delete a session value",
+    docs: {
+      query: { key: { description: "Key to delete", required: true } },
+      responses: {
+        200: ok("SessionDeleteResult"),
+        400: error("Missing or invalid key"),
+        403: error("The session belongs to another user"),
+      },
+    },
+  },
+  {
+    path: "/session/ttl",
+    methods: ["GET"],
+    binding: "SESSION",
+    name: session,
+    auth: true,
+    middleware: [sessionCookie()],
+    description:
+      "When the session and its expiring keys expire; doesn't extend the session",
+    docs: {
+      responses: {
+        200: ok("SessionExpiry"),
+        403: error("The session belongs to another user"),
+      },
+    },
+  },
+  {
+    path: "/session/rotate",
+    methods: ["POST"],
+    binding: "SESSION",
+    name: session,
+    auth: true,
+    middleware: [sessionCookie()],
+    handle: rotateSession,
+    description:
+      "Move the session to a new id and set the new cookie; do this after signing in. Timeouts and lifetime carry over",
+    docs: {
+      responses: {
+        200: {
+          description: "The session's new TTL",
+          schema: ref("SessionRotateResult"),
+          headers: { "Set-Cookie": "The new session cookie" },
+        },
+        403: error("The session belongs to another user"),
+      },
+    },
+  },
+  {
+    path: "/session/destroy",
+    methods: ["POST"],
+    binding: "SESSION",
+    name: session,
+    auth: true,
+    handle: destroySession,
+    description: "Log out: delete the session and clear the cookie",
+    docs: {
+      responses: {
+        200: {
+          description: "The session was deleted, or there was none",
+          schema: ref("SessionDestroyResult"),
+          headers: { "Set-Cookie": "Clears the session cookie" },
+        },
+        403: error("The session belongs to another user"),
+      },
+    },
+  },
+
+  // Streamer
+  {
+    path: "/streamer/stream",
+    methods: ["GET"],
+    binding: "STREAMER",
+    name: { from: "constant", value: "default" },
+    description:
+      "Streams incrementing counter values; the worker cancels after 5 messages",
+    handle: consumeStream,
+    docs: { responses: { 200: ok("StreamResult") } },
+  },
+  {
+    path: "/streamer",
+    methods: ["GET"],
+    binding: "STREAMER",
+    name: { from: "constant", value: "default" },
+    description: "Streamer info",
+    docs: {
+      responses: {
+        200: {
+          description: "Success",
+          schema: object<{
+            message: string;
+            endpoints: Record<string, string>;
+            info: string;
+          }>({
+            message: string(),
+            endpoints: record(string()),
+            info: string(),
+          }),
+        },
+      },
+    },
+  },
+
+  // KVStore
+  {
+    path: "/kv-store/kv",
+    methods: ["GET"],
+    binding: "KV_STORE",
+    name: kvRoom,
+    description:
+      "Read a value from KV. In cache mode, misses are read from the object's storage and cached in KV",
+    handle: forwardToKVStore,
+    docs: {
+      query: {
+        key: { description: "Key to read", required: true },
+        format: {
+          description:
+            "binary streams the value back as application/octet-stream, with its metadata in X-KV-Metadata",
+          schema: literal("json", "binary"),
+        },
+      },
+      responses: {
+        200: {
+          ...ok("KVValue"),
+          headers: {
+            "X-KV-Metadata": "With format=binary: the value's JSON metadata",
+            "X-KV-Source": "With format=binary: kv or storage",
+          },
+        },
+        400: error("Missing key"),
+        404: error("With format=binary: no such key"),
+      },
+    },
+  },
+  {
+    path: "/kv-store/kv",
+    methods: ["PUT"],
+    binding: "KV_STORE",
+    name: kvRoom,
+    description:
+      "Write a value to KV, or in cache mode to the object's storage and then KV. Binary values are sent as an application/octet-stream body, with the key and expiry in the query and JSON metadata in the X-KV-Metadata header",
+    handle: forwardToKVStore,
+    middleware: [kvWriteLimits],
+    docs: {
+      query: {
+        key: { description: "Key to write, for binary bodies" },
+        expiration: {
+          description:
+            "For binary bodies: when the key expires, in seconds since the epoch",
+          schema: { type: "integer" },
+        },
+        expirationTtl: {
+          description: "For binary bodies: seconds until the key expires (60+)",
+          schema: { type: "integer", minimum: 60 },
+        },
+      },
+      requestBody: {
+        schema: object<{
+          key: string;
+          value: string;
+          expiration?: number;
+          expirationTtl?: number;
+          metadata?: unknown;
+        }>({
+          key: string(),
+          value: string("May be empty"),
+          expiration: optional(
+            integer(
+              "When the key expires, in seconds since the epoch; at least 60 seconds from now"
+            )
+          ),
+          expirationTtl: optional(
+            integer("Seconds until the key expires (60+)")
+          ),
+          metadata: optional({
+            description:
+              "Any JSON up to 1024 bytes, returned with reads and lists",
+          }),
+        }),
+      },
+      responses: {
+        200: ok("KVWriteResult"),
+        400: error("Missing key or value, invalid JSON, expiry or metadata"),
+        413: error("In cache mode: the value is too large to store"),
+      },
+    },
+  },
+  {
+    path: "/kv-store/kv",
+    methods: ["DELETE"],
+    binding: "KV_STORE",
+    name: kvRoom,
+    description:
+      "Delete a value from KV, or in cache mode from the object's storage and KV",
+    handle: forwardToKVStore,
+    middleware: [kvWriteLimits],
+    docs: {
+      query: { key: { description: "Key to delete", required: true } },
+      responses: { 200: ok("KVWriteResult"), 400: error("Missing key") },
+    },
+  },
+  {
+    path: "/kv-store/stats",
+    methods: ["GET"],
+    binding: "KV_STORE",
+    name: kvRoom,
+    description: "Read and write statistics",
+    handle: forwardToKVStore,
+    docs: { responses: { 200: ok("KVStats") } },
+  },
+  {
+    path: "/kv-store/list",
+    methods: ["GET"],
+    binding: "KV_STORE",
+    name: kvRoom,
+    description: "List keys with their expiry and metadata",
+    handle: forwardToKVStore,
+    docs: {
+      query: {
+        prefix: { description: "Only keys starting with this prefix" },
+        limit: {
+          description: "Maximum keys to return (default 10)",
+          schema: { type: "integer", minimum: 1 },
+        },
+        cursor: { description: "The cursor from the previous page" },
+      },
+      responses: { 200: ok("KVList") },
+    },
+  },
+  {
+    path: "/kv-store/config",
+    methods: ["GET"],
+    binding: "KV_STORE",
+    name: kvRoom,
+    description: "Where the store keeps values and how KV caches them",
+    handle: forwardToKVStore,
+    docs: {
+      responses: {
+        200: {
+          description: "Success",
+          schema: object<{ config: KVStoreConfig }>({
+            config: ref("KVStoreConfig"),
+          }),
+        },
+      },
+    },
+  },
+  {
+    path: "/kv-store/config",
+    methods: ["PUT"],
+    binding: "KV_STORE",
+    name: kvRoom,
+    description:
+      "Change the store's mode or caching; omitted fields are unchanged. Switching modes doesn't move existing values",
+    handle: forwardToKVStore,
+    middleware: [kvWriteLimits],
+    docs: {
+      requestBody: {
+        schema: object<Partial<KVStoreConfig>>({
+          mode: optional(literal("kv", "cache")),
+          cacheTtl: optional(integer("At least 60")),
+          onWrite: optional(literal("update", "invalidate")),
+        }),
+      },
+      responses: {
+        200: {
+          description: "Success",
+          schema: object<{ success: boolean; config: KVStoreConfig }>({
+            success: boolean(),
+            config: ref("KVStoreConfig"),
+          }),
+        },
+        400: error("Invalid settings"),
+      },
+    },
+  },
+
+  // LatencyTester
+  {
+    path: "/latency-test",
+    methods: ["GET"],
+    binding: "LATENCY_TESTER",
+    name: { from: "query", param: "name", fallback: "test" },
+    locationHintParam: "locationHint",
+    description:
+      "Measure DO latency with an optional location hint (wnam, enam, sam, weur, eeur, apac, oc, afr, me)",
+    handle: measureLatency,
+    docs: { responses: { 200: ok("LatencyResult") } },
+  },
+
+  // RPC Target
+  {
+    path: "/rpc",
+    methods: ["GET"],
+    binding: "MY_DURABLE_OBJECT",
+    name: { from: "path" },
+    description:
+      "RPC Target pattern. Uses an RpcTarget to pass metadata and call DO methods without fetch.",
+    handle: greetOverRpc,
+    docs: { responses: { 200: ok("RpcGreeting") } },
+  },
+  {
+    path: "/rpc/*",
+    methods: ["GET"],
+    binding: "MY_DURABLE_OBJECT",
+    name: { from: "path" },
+    description: "Same as /rpc, with one object per path",
+    handle: greetOverRpc,
+    docs: { responses: { 200: ok("RpcGreeting") } },
+  },
+];
+
+/**
+ * Consumes the stream and cancels it after 5 messages.
+ */
+async function consumeStream({ request, stub }: RouteContext<Env>) {
+  const response = await stub.fetch(request);
+
+  // If not a stream response, just return it
+  if (!response.ok || !response.body) {
+    return response;
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+
+  const data: string[] = [];
+  let i = 0;
+
+  while (true) {
+    // Cancel the stream after 5 messages
+    if (i >= 5) {
+      await reader.cancel();
+      break;
+    }
+
+    const { value, done } = await reader.read();
+
+    if (value) {
+      const trimmed = value.trim();
+      if (trimmed) {
+        console.log(`Got value: ${trimmed}`);
+        data.push(trimmed);
+        i++;
+      }
+    }
+
+    if (done) {
+      break;
+    }
+  }
+
+  return Response.json({
+    message: "Stream cancelled after 5 messages",
+    values: data,
+  });
+}
+
+/**
+ * Passes the request to the KVStore, rewriting the path to remove the
+ * /kv-store prefix.
+ */
+async function forwardToKVStore({ request, stub }: RouteContext<Env>) {
+  const newUrl = new URL(request.url);
+  newUrl.pathname = newUrl.pathname.replace("/kv-store", "");
+
+  return stub.fetch(newUrl.toString(), request);
+}
+
+/**
+ * Measures the full round-trip time to the LatencyTester.
+ */
+async function measureLatency({
+  request,
+  stub,
+  name,
+  locationHint,
+}: RouteContext<Env>) {
+  const startTime = Date.now();
+  const objectResponse = await stub.fetch(request);
+  const totalLatency = Date.now() - startTime;
+
+  const data = (await objectResponse.json()) as Record<string, unknown>;
+
+  return Response.json({
+    ...data,
+    totalLatency,
+    locationHint: locationHint || "none",
+    doName: name,
+  });
+}
+
+async function greetOverRpc({ env, name }: RouteContext<Env>) {
+  const id: DurableObjectId = env.MY_DURABLE_OBJECT.idFromName(name);
+  const stub = env.MY_DURABLE_OBJECT.get(id);
+
+  // Set the Durable Object metadata using the RpcTarget
+  // Notice that no await is needed here
+  const rpcTarget = stub.setMetaData(id.name ?? "default");
+
+  // Call the Durable Object method using the RpcTarget.
+  // The DO identifier is stored in the Durable Object's storage
+  const greeting = await rpcTarget.computeMessage("world");
+
+  // Call the Durable Object method that does not use the Durable Object identifier
+  const simpleGreeting = await rpcTarget.simpleGreeting("world");
+
+  // Get the initialization timestamp as a separate field
+  const initializedAt = await rpcTarget.getInitializedAt();
+
+  // Clean up the RpcTarget.
+  // Note: Symbol.dispose cleanup is handled automatically by the runtime
+  console.log("RpcTarget will be cleaned up automatically.");
+
+  return Response.json({
+    greeting,
+    simpleGreeting,
+    initializedAt,
+  });
+}
@@ -0,0 +1,547 @@
+/**
+ * Shared schemas for the OpenAPI document
+ *
+ * Each schema is bound to the TypeScript type it documents with
+ * `object<T>()`, so changing a type's fields without updating its schema
+ * fails the type check.
+ */
+
+import type {
+  BatchItem,
+  BatcherStatus,
+  ChatMember,
+  ChatMessage,
+  CounterChange,
+  CounterEntry,
+  CounterHistory,
+  ShardedStatsBucket,
+  DeadLetter,
+  EnqueueResult,
+  FlushResult,
+  HistoryPage,
+  KVListEntry,
+  KVStoreConfig,
+  LatencyMeasurement,
+  ModerationConfig,
+  RateLimitAlgorithm,
+  RetentionPolicy,
+  Sanction,
+  SessionData,
+  SessionExpiry,
+  SessionTtl,
+  SessionValue,
+} from "durable-objects";
+import {
+  array,
+  boolean,
+  integer,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  ref,
+  string,
+  type JsonSchema,
+} from "./openapi";
+
+/**
+ * Error body returned by the worker and most Durable Objects.
+ */
+export interface ErrorBody {
+  error: string;
+  code?: string;
+  retry_after_ms?: number;
+}
+
+export interface MessageResult {
+  success: true;
+  message: ChatMessage;
+}
+
+export interface CounterResult {
+  counter: string;
+  value: number;
+  action?: "incremented" | "decremented" | "added" | "set" | "reset";
+  shard?: number;
+  shards?: number;
+  cachedAt?: number;
+}
+
+export interface CounterConflict {
+  error: string;
+  value: number;
+}
+
+export interface CounterList {
+  counters: CounterEntry[];
+}
+
+export interface CounterHistoryPage extends CounterHistory {
+  counter: string;
+}
+
+// `value` is left out for sharded counters
+export interface CounterStatsBucket extends ShardedStatsBucket {
+  value?: number;
+}
+
+export interface CounterStats {
+  counter: string;
+  bucket: "minute" | "hour" | "day";
+  shards?: number;
+  buckets: CounterStatsBucket[];
+}
+
+export interface DeadLetterList {
+  deadLetters: DeadLetter[];
+}
+
+export interface ReplayResult {
+  success: true;
+  batches: number;
+  items: number;
+}
+
+export interface RateLimitAllowed {
+  success: true;
+  message: string;
+  limiter: string;
+  algorithm: RateLimitAlgorithm;
+  cost: number;
+  remaining: number;
+}
+
+export interface RateLimitExceeded {
+  error: string;
+  limiter: string;
+  algorithm: RateLimitAlgorithm;
+  cost: number;
+  retry_after_ms: number;
+  remaining: number;
+}
+
+export interface SessionSetResult extends SessionTtl {
+  success: true;
+  message: string;
+}
+
+export interface SessionMsetResult extends SessionTtl {
+  success: true;
+  stored: number;
+  removed: number;
+}
+
+export interface SessionDeleteResult {
+  success: true;
+  key: string;
+  deleted: boolean;
+}
+
+export interface SessionRotateResult extends SessionTtl {
+  success: true;
+}
+
+export interface SessionDestroyResult {
+  success: true;
+  destroyed: boolean;
+}
+
+export interface StreamResult {
+  message: string;
+  values: string[];
+}
+
+export interface KVValue {
+  key: string;
+  value: string | null;
+  found: boolean;
+  metadata: unknown;
+  source: "kv" | "storage";
+  read_count: number;
+}
+
+export interface KVWriteResult {
+  success: true;
+  message: string;
+  write_count?: number;
+}
+
+export interface KVStats {
+  statistics: {
+    total_writes: number;
+    total_reads: number;
+    last_key_written: string | null;
+    last_key_read: string | null;
+  };
+  note: string;
+}
+
+export interface KVList {
+  keys: KVListEntry[];
+  list_complete: boolean;
+  cursor?: string;
+  count: number;
+}
+
+export interface LatencyResult extends LatencyMeasurement {
+  totalLatency: number;
+  locationHint: string;
+  doName: string;
+}
+
+export interface RpcGreeting {
+  greeting: string;
+  simpleGreeting: string;
+  initializedAt: string;
+}
+
+const sessionTtl = {
+  ttl_seconds: integer("Inactivity timeout"),
+  max_lifetime_seconds: nullable(
+    integer("Lifetime from creation that activity can't extend")
+  ),
+  expires_at: nullable(
+    string(
+      "When the session ends unless it is used again, capped by its lifetime; null if it doesn't exist"
+    )
+  ),
+  remaining_seconds: nullable(integer("Seconds until expires_at")),
+  alarm_scheduled_at: nullable(
+    string("When the next session or key deadline is handled")
+  ),
+};
+
+const keyExpiresAt = record(
+  string(),
+  "Deadlines of the keys that expire on their own"
+);
+
+export const schemas: Record<string, JsonSchema> = {
+  Error: object<ErrorBody>({
+    error: string("Human-readable error message"),
+    code: optional(string("Machine-readable error code")),
+    retry_after_ms: optional(
+      number("Milliseconds to wait before retrying, when rate limited")
+    ),
+  }),
+
+  ChatMessage: object<ChatMessage>({
+    id: string(),
+    text: string("Empty once the message is deleted"),
+    timestamp: integer("Unix time in milliseconds"),
+    username: string(),
+    editedAt: optional(integer()),
+    deletedAt: optional(integer()),
+    deletedBy: optional(
+      string("The author, or the moderator who removed the message")
+    ),
+    reactions: optional(
+      record(array(string()), "Emoji -> usernames who reacted with it")
+    ),
+  }),
+
+  ChatMember: object<ChatMember>({
+    username: string(),
+    joinedAt: integer(),
+    connections: integer("Open connections for this user"),
+  }),
+
+  HistoryPage: object<HistoryPage>({
+    messages: array(ref("ChatMessage"), "Oldest first"),
+    hasMore: boolean("Whether older (or newer, with after) messages exist"),
+  }),
+
+  RetentionPolicy: object<RetentionPolicy>({
+    maxMessages: nullable(integer()),
+    maxAgeMs: nullable(integer()),
+  }),
+
+  ModerationConfig: object<ModerationConfig>({
+    moderators: array(string()),
+    blockedPatterns: array(
+      string(),
+      "Case-insensitive regular expression sources"
+    ),
+    maxMessageLength: integer(),
+  }),
+
+  Sanction: object<Sanction>({
+    by: string(),
+    at: integer(),
+    until: nullable(integer("Null when the sanction doesn't expire")),
+    reason: optional(string()),
+  }),
+
+  MessageResult: object<MessageResult>({
+    success: boolean(),
+    message: ref("ChatMessage"),
+  }),
+
+  CounterResult: object<CounterResult>({
+    counter: string(),
+    value: integer(),
+    action: optional(
+      literal("incremented", "decremented", "added", "set", "reset")
+    ),
+    shard: optional(
+      integer(
+        "Sharded writes: the shard that took the write; value is its count"
+      )
+    ),
+    shards: optional(integer("Sharded reads: shards summed into value")),
+    cachedAt: optional(integer("Sharded reads: when the shards were summed")),
+  }),
+
+  CounterConflict: object<CounterConflict>({
+    error: string(),
+    value: integer("The counter's current value"),
+  }),
+
+  CounterList: object<CounterList>({
+    counters: array(object<CounterEntry>({ name: string(), value: integer() })),
+  }),
+
+  CounterChange: object<CounterChange>({
+    id: integer(),
+    delta: integer(),
+    value: integer("The counter's value after the change"),
+    changedAt: integer(),
+    caller: nullable(string("Authenticated user who made the change")),
+  }),
+
+  CounterHistoryPage: object<CounterHistoryPage>({
+    counter: string(),
+    changes: array(ref("CounterChange"), "Oldest first"),
+    hasMore: boolean("Whether older (or newer, with after) changes exist"),
+  }),
+
+  CounterStats: object<CounterStats>({
+    counter: string(),
+    bucket: literal("minute", "hour", "day"),
+    shards: optional(integer("Sharded counters: shards summed")),
+    buckets: array(
+      object<CounterStatsBucket>({
+        start: integer("Start of the bucket"),
+        delta: integer("Sum of the bucket's changes"),
+        changes: integer("Number of changes"),
+        value: optional(
+          integer(
+            "The value after the bucket's last change; left out for sharded counters"
+          )
+        ),
+      }),
+      "Oldest first; buckets without changes are left out"
+    ),
+  }),
+
+  EnqueueResult: object<EnqueueResult>({
+    id: integer("Id of the queued item"),
+    queued: integer("Items waiting in the current batch"),
+    debounce: boolean(),
+    duplicate: optional(
+      boolean("The idempotency key was seen before; nothing was queued")
+    ),
+    flushed: optional(ref("FlushStatus")),
+  }),
+
+  FlushStatus: literal(
+    "empty",
+    "busy",
+    "delivered",
+    "retrying",
+    "dead-lettered"
+  ),
+
+  FlushResult: object<FlushResult>({
+    status: ref("FlushStatus"),
+    items: integer("Items in the flushed batch"),
+  }),
+
+  BatcherStatus: object<BatcherStatus>({
+    pending: integer("Items waiting to be delivered"),
+    bytes: integer("Total size of the pending items"),
+    windowStartedAt: nullable(integer("When the first pending item arrived")),
+    nextAlarm: nullable(integer("Next flush or retry, in Unix milliseconds")),
+    attempts: integer("Failed delivery attempts for the pending batch"),
+    deadLetters: integer(),
+  }),
+
+  BatchItem: object<BatchItem>({
+    id: integer("Increases with every queued item"),
+    body: string("The queued request body"),
+    receivedAt: integer("Unix time in milliseconds"),
+    contentType: nullable(string()),
+    producerId: nullable(string("The producer's X-Producer-Id header")),
+  }),
+
+  DeadLetter: object<DeadLetter>({
+    id: integer(),
+    items: array(ref("BatchItem")),
+    attempts: integer("Delivery attempts made"),
+    error: string("Error from the last attempt"),
+    failedAt: integer("Unix time in milliseconds"),
+  }),
+
+  DeadLetterList: object<DeadLetterList>({
+    deadLetters: array(ref("DeadLetter"), "Oldest first"),
+  }),
+
+  ReplayResult: object<ReplayResult>({
+    success: boolean(),
+    batches: integer("Dead letters queued again"),
+    items: integer("Items queued again"),
+  }),
+
+  RateLimitAllowed: object<RateLimitAllowed>({
+    success: boolean(),
+    message: string(),
+    limiter: string(),
+    algorithm: ref("RateLimitAlgorithm"),
+    cost: integer(),
+    remaining: integer("Quota left after this request"),
+  }),
+
+  RateLimitExceeded: object<RateLimitExceeded>({
+    error: string(),
+    limiter: string(),
+    algorithm: ref("RateLimitAlgorithm"),
+    cost: integer(),
+    retry_after_ms: integer("Milliseconds until this cost can be paid"),
+    remaining: integer(),
+  }),
+
+  RateLimitAlgorithm: literal(
+    "token-bucket",
+    "fixed-window",
+    "sliding-window-log",
+    "sliding-window-counter"
+  ),
+
+  SessionSetResult: object<SessionSetResult>({
+    success: boolean(),
+    message: string(),
+    ...sessionTtl,
+  }),
+
+  SessionMsetResult: object<SessionMsetResult>({
+    success: boolean(),
+    stored: integer("Keys set"),
+    removed: integer("Keys removed"),
+    ...sessionTtl,
+  }),
+
+  SessionValue: object<SessionValue>({
+    key: string(),
+    value: nullable({ description: "The stored JSON value" }),
+    exists: boolean(),
+    key_expires_at: nullable(string("When this key expires on its own")),
+    ...sessionTtl,
+  }),
+
+  SessionData: object<SessionData>({
+    data: record({}, "All session values by key"),
+    count: integer(),
+    key_expires_at: keyExpiresAt,
+    ...sessionTtl,
+  }),
+
+  SessionDeleteResult: object<SessionDeleteResult>({
+    success: boolean(),
+    key: string(),
+    deleted: boolean("Whether the key existed"),
+  }),
+
+  SessionRotateResult: object<SessionRotateResult>({
+    success: boolean(),
+    ...sessionTtl,
+  }),
+
+  SessionDestroyResult: object<SessionDestroyResult>({
+    success: boolean(),
+    destroyed: boolean("Whether there was a session to delete"),
+  }),
+
+  SessionExpiry: object<SessionExpiry>({
+    ...sessionTtl,
+    key_expires_at: keyExpiresAt,
+  }),
+
+  StreamResult: object<StreamResult>({
+    message: string(),
+    values: array(string(), "Values read before the stream was cancelled"),
+  }),
+
+  KVValue: object<KVValue>({
+    key: string(),
+    value: nullable(string()),
+    found: boolean(),
+    metadata: nullable({ description: "JSON metadata written with the value" }),
+    source: {
+      ...literal("kv", "storage"),
+      description: "KV, or the object's storage after a cache miss",
+    },
+    read_count: integer(),
+  }),
+
+  KVWriteResult: object<KVWriteResult>({
+    success: boolean(),
+    message: string(),
+    write_count: optional(integer()),
+  }),
+
+  KVStats: object<KVStats>({
+    statistics: object<KVStats["statistics"]>({
+      total_writes: integer(),
+      total_reads: integer(),
+      last_key_written: nullable(string()),
+      last_key_read: nullable(string()),
+    }),
+    note: string(),
+  }),
+
+  KVStoreConfig: object<KVStoreConfig>({
+    mode: {
+      ...literal("kv", "cache"),
+      description:
+        "kv: values live in KV. cache: values live in the object's storage, cached in KV",
+    },
+    cacheTtl: integer("Seconds KV may serve reads from its edge cache (60+)"),
+    onWrite: {
+      ...literal("update", "invalidate"),
+      description:
+        "Whether writes in cache mode replace or drop the cached value",
+    },
+  }),
+
+  KVListEntry: object<KVListEntry>({
+    name: string(),
+    expiration: optional(
+      integer("When the key expires, in seconds since the epoch")
+    ),
+    metadata: optional({ description: "JSON metadata written with the value" }),
+  }),
+
+  KVList: object<KVList>({
+    keys: array(ref("KVListEntry")),
+    list_complete: boolean(),
+    cursor: optional(string("Pass back to continue listing")),
+    count: integer(),
+  }),
+
+  LatencyResult: object<LatencyResult>({
+    trace: record(string(), "Parsed Cloudflare trace from the object"),
+    processingTime: integer("Milliseconds spent inside the object"),
+    timestamp: string(),
+    totalLatency: integer("Round-trip milliseconds measured by the worker"),
+    locationHint: string('The hint used, or "none"'),
+    doName: string(),
+  }),
+
+  RpcGreeting: object<RpcGreeting>({
+    greeting: string(),
+    simpleGreeting: string(),
+    initializedAt: string("When this object instance was created"),
+  }),
+};
@@ -0,0 +1,184 @@
+/**
+ * Cookie sessions
+ *
+ * Session routes find their Session object through a cookie the worker
+ * issues, instead of an id the client picks. The cookie holds 32 random
+ * bytes and their HMAC signature (made with AUTH_SECRET):
+ *
+ *   Set-Cookie: session=<id>.<signature>; Path=/; HttpOnly; Secure; SameSite=Lax
+ *
+ * The id can't be guessed, and the signature lets the worker reject forged
+ * or mangled cookies before any object is involved. `sessionCookie()`
+ * middleware resolves the cookie to the session's object. Writes without a
+ * valid cookie start a new session and set the cookie; reads without one
+ * are answered by the worker alone, so they never reach (or create) an
+ * object.
+ *
+ * `rotateSession` moves a session to a fresh id, which should happen
+ * whenever the user signs in or gains privileges so an id planted before
+ * then (session fixation) is useless. `destroySession` ends the session and
+ * clears the cookie.
+ */
+
+import type { Env } from "./env";
+import { getCookie, type Middleware, type RouteContext } from "./router";
+import { randomId, signValue, verifyValue } from "./token";
+
+export const SESSION_COOKIE = "session";
+
+const ID_BYTES = 32;
+// Keeps session signatures apart from anything else signed with the secret
+const SIGNATURE_CONTEXT = "session:";
+
+export interface SessionCookieOptions {
+  // Start a new session when the request has no valid cookie
+  create?: boolean;
+}
+
+/**
+ * Middleware pointing the route at the session named by the request's
+ * cookie.
+ */
+export function sessionCookie(
+  options: SessionCookieOptions = {}
+): Middleware<Env> {
+  const middleware: Middleware<Env> = async (context, next) => {
+    const secret = context.env.AUTH_SECRET;
+    if (!secret) {
+      return missingSecret();
+    }
+
+    const id = await readSessionId(context.request, secret);
+    if (id !== null) {
+      useSession(context, id);
+      return next();
+    }
+    if (!options.create) {
+      return noSession(context.request);
+    }
+
+    const created = randomId(ID_BYTES);
+    useSession(context, created);
+    const response = await next();
+    if (!response.ok) {
+      return response;
+    }
+    return withCookie(response, await issueCookie(created, secret));
+  };
+
+  middleware.responses = {
+    404: {
+      description: "No valid session cookie",
+      schema: { $ref: "#/components/schemas/Error" },
+    },
+  };
+
+  return middleware;
+}
+
+/**
+ * Moves the session to a fresh id and sets the new cookie. Runs after
+ * `sessionCookie()`, which has already found the current session.
+ */
+export async function rotateSession(
+  context: RouteContext<Env>
+): Promise<Response> {
+  const { request, stub } = context;
+  const secret = context.env.AUTH_SECRET;
+
+  const to = randomId(ID_BYTES);
+  const url = new URL(request.url);
+  url.searchParams.set("to", to);
+  const response = await stub.fetch(new Request(url, request));
+  if (!response.ok) {
+    return response;
+  }
+  return withCookie(response, await issueCookie(to, secret));
+}
+
+/**
+ * Deletes the session, if there is one, and clears the cookie. Succeeds
+ * without a session so that logging out twice is harmless.
+ */
+export async function destroySession(
+  context: RouteContext<Env>
+): Promise<Response> {
+  const { request, env } = context;
+  if (!env.AUTH_SECRET) {
+    return missingSecret();
+  }
+
+  const id = await readSessionId(request, env.AUTH_SECRET);
+  if (id === null) {
+    return withCookie(
+      Response.json({ success: true, destroyed: false }),
+      clearCookie()
+    );
+  }
+
+  useSession(context, id);
+  const response = await context.stub.fetch(request);
+  if (!response.ok) {
+    return response;
+  }
+  return withCookie(response, clearCookie());
+}
+
+/**
+ * The session id from a correctly signed cookie, or null.
+ */
+async function readSessionId(
+  request: Request,
+  secret: string
+): Promise<string | null> {
+  const cookie = getCookie(request, SESSION_COOKIE);
+  const [id, signature, ...rest] = cookie?.split(".") ?? [];
+  if (!id || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const valid = await verifyValue(SIGNATURE_CONTEXT + id, signature, secret);
+  return valid ? id : null;
+}
+
+function useSession(context: RouteContext<Env>, id: string) {
+  const namespace = context.env.SESSION;
+  context.name = id;
+  context.stub = namespace.get(namespace.idFromName(id));
+}
+
+async function issueCookie(id: string, secret: string): Promise<string> {
+  const signature = await signValue(SIGNATURE_CONTEXT + id, secret);
+  return `${SESSION_COOKIE}=${id}.${signature}; Path=/; HttpOnly; Secure; SameSite=Lax`;
+}
+
+function clearCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`;
+}
+
+function withCookie(response: Response, cookie: string): Response {
+  const withHeader = new Response(response.body, response);
+  withHeader.headers.append("Set-Cookie", cookie);
+  return withHeader;
+}
+
+/**
+ * Response for a read without a valid cookie. A cookie that failed
+ * verification is cleared so the client stops sending it.
+ */
+function noSession(request: Request): Response {
+  const response = Response.json(
+    { error: "No session; POST /session/set starts one" },
+    { status: 404 }
+  );
+  return getCookie(request, SESSION_COOKIE) === null
+    ? response
+    : withCookie(response, clearCookie());
+}
+
+function missingSecret(): Response {
+  return Response.json(
+    { error: "Sessions are not configured (missing AUTH_SECRET)" },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,181 @@
+/**
+ * Signed tokens
+ *
+ * Signs and verifies HMAC-SHA256 tokens in the compact JWT format
+ * (`base64url(header).base64url(payload).base64url(signature)`), and
+ * plain values such as session cookies. Only uses Web Crypto, so it runs in
+ * the worker and in Node scripts alike.
+ */
+
+export interface TokenClaims {
+  // The user the token was issued to
+  sub: string;
+  // Expiry, in seconds since the epoch
+  exp?: number;
+  // Not valid before, in seconds since the epoch
+  nbf?: number;
+  iat?: number;
+}
+
+// Allowed clock skew when checking exp and nbf
+const CLOCK_SKEW_SECONDS = 30;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Verifies a token and returns its claims, or null if the signature,
+ * format or validity window is wrong.
+ */
+export async function verifyToken(
+  token: string,
+  secret: string
+): Promise<TokenClaims | null> {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return null;
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  let header: { alg?: string };
+  let claims: Partial<TokenClaims>;
+  let signature: Uint8Array;
+  try {
+    header = JSON.parse(decoder.decode(base64UrlDecode(encodedHeader)));
+    claims = JSON.parse(decoder.decode(base64UrlDecode(encodedPayload)));
+    signature = base64UrlDecode(encodedSignature);
+  } catch {
+    return null;
+  }
+
+  // Only accept the algorithm we sign with; never trust "none"
+  if (header.alg !== "HS256") {
+    return null;
+  }
+
+  // crypto.subtle.verify compares in constant time
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await importKey(secret),
+    signature,
+    encoder.encode(`${encodedHeader}.${encodedPayload}`)
+  );
+  if (!valid) {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.sub !== "string" || !claims.sub) {
+    return null;
+  }
+  if (typeof claims.exp === "number" && now > claims.exp + CLOCK_SKEW_SECONDS) {
+    return null;
+  }
+  if (typeof claims.nbf === "number" && now < claims.nbf - CLOCK_SKEW_SECONDS) {
+    return null;
+  }
+
+  return claims as TokenClaims;
+}
+
+/**
+ * Signs a token for `sub`, valid for `ttlSeconds`. Used by
+ * scripts/sign-token.ts to create tokens for testing.
+ */
+export async function signToken(
+  sub: string,
+  secret: string,
+  ttlSeconds: number = 60 * 60
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: TokenClaims = { sub, iat: now, exp: now + ttlSeconds };
+
+  const encodedHeader = base64UrlEncode(
+    encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" }))
+  );
+  const encodedPayload = base64UrlEncode(
+    encoder.encode(JSON.stringify(claims))
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    encoder.encode(`${encodedHeader}.${encodedPayload}`)
+  );
+
+  return `${encodedHeader}.${encodedPayload}.${base64UrlEncode(
+    new Uint8Array(signature)
+  )}`;
+}
+
+/**
+ * Signs `value`, returning the base64url-encoded HMAC-SHA256 signature.
+ */
+export async function signValue(
+  value: string,
+  secret: string
+): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    encoder.encode(value)
+  );
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+/**
+ * Checks a signature made by `signValue`.
+ */
+export async function verifyValue(
+  value: string,
+  signature: string,
+  secret: string
+): Promise<boolean> {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64UrlDecode(signature);
+  } catch {
+    return false;
+  }
+
+  // crypto.subtle.verify compares in constant time
+  return crypto.subtle.verify(
+    "HMAC",
+    await importKey(secret),
+    bytes,
+    encoder.encode(value)
+  );
+}
+
+/**
+ * Encodes random bytes as base64url, e.g. for unguessable ids.
+ */
+export function randomId(bytes: number): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
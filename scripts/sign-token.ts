@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+/**
+ * Token Signing Script
+ *
+ * Creates a signed token for trying out the authenticated chat and session
+ * routes. Uses the same secret as the worker's AUTH_SECRET binding.
+ *
+ * Usage:
+ *   AUTH_SECRET=<secret> npm run sign-token <username> [ttl-seconds]
+ *
+ * Example:
+ *   AUTH_SECRET=dev-secret npm run sign-token alice 3600
+ */
+
+import { signToken } from "../packages/worker/src/token";
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0) {
+    console.error(
+      "Usage: AUTH_SECRET=<secret> npm run sign-token <username> [ttl-seconds]"
+    );
+    process.exit(1);
+  }
+
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    console.error("AUTH_SECRET environment variable is required");
+    process.exit(1);
+  }
+
+  const username = args[0];
+  const ttlSeconds = args[1] ? parseInt(args[1], 10) : 60 * 60;
+
+  console.log(await signToken(username, secret, ttlSeconds));
+}
+
+main().catch(console.error);